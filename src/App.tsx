@@ -1,14 +1,24 @@
 import React from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
+import { Permission, getHomePath, hasPermission } from '@/lib/permissions';
+import { getPostLoginPath, getReturnTo, ReturnToState } from '@/lib/redirect';
 import ErrorBoundary from '@/components/ErrorBoundary';
+import SessionExpiryBanner from '@/components/SessionExpiryBanner';
+import RateLimitBanner from '@/components/RateLimitBanner';
+import IdleTimeoutDialog from '@/components/IdleTimeoutDialog';
+import { Toaster } from '@/components/ui/toaster';
 import LoginPage from '@/pages/LoginPage';
+import RegisterPage from '@/pages/RegisterPage';
+import ForgotPasswordPage from '@/pages/ForgotPasswordPage';
+import ResetPasswordPage from '@/pages/ResetPasswordPage';
 import WorkerDashboard from '@/pages/WorkerDashboard';
 import ManagerDashboard from '@/pages/ManagerDashboard';
 import CreateIncidentPage from '@/pages/CreateIncidentPage';
 import IncidentDetailPage from '@/pages/IncidentDetailPage';
 import EditIncidentPage from '@/pages/EditIncidentPage';
+import AdminUsersPage from '@/pages/AdminUsersPage';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -19,11 +29,12 @@ const queryClient = new QueryClient({
   },
 });
 
-const ProtectedRoute: React.FC<{ children: React.ReactNode; requiredRole?: 'WORKER' | 'MANAGER' }> = ({ 
+const ProtectedRoute: React.FC<{ children: React.ReactNode; permission?: Permission }> = ({ 
   children, 
-  requiredRole 
+  permission 
 }) => {
   const { isAuthenticated, user, isLoading } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return (
@@ -37,37 +48,53 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode; requiredRole?: 'WORK
   }
 
   if (!isAuthenticated || !user) {
-    return <Navigate to="/login" replace />;
+    // Remember the requested page so login can bring the user back to it
+    const state: ReturnToState = { from: `${location.pathname}${location.search}${location.hash}` };
+    return <Navigate to="/login" replace state={state} />;
   }
 
-  if (requiredRole && user.role !== requiredRole) {
-    return <Navigate to={user.role === 'MANAGER' ? '/manager' : '/worker'} replace />;
+  if (permission && !hasPermission(user, permission)) {
+    return <Navigate to={getHomePath(user)} replace />;
   }
 
   return <>{children}</>;
 };
 
+const LoginRoute: React.FC = () => {
+  const { isAuthenticated, user } = useAuth();
+  const location = useLocation();
+
+  if (isAuthenticated) {
+    return <Navigate to={getPostLoginPath(user, getReturnTo(location))} replace />;
+  }
+
+  return <LoginPage />;
+};
+
 const AppRoutes: React.FC = () => {
   const { isAuthenticated, user } = useAuth();
 
   return (
     <Routes>
+      <Route path="/login" element={<LoginRoute />} />
       <Route 
-        path="/login" 
+        path="/register" 
         element={
           !isAuthenticated ? (
-            <LoginPage />
+            <RegisterPage />
           ) : (
-            <Navigate to={user?.role === 'MANAGER' ? '/manager' : '/worker'} replace />
+            <Navigate to={getHomePath(user)} replace />
           )
         } 
       />
+      <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+      <Route path="/reset-password/:token" element={<ResetPasswordPage />} />
       
       {/* Worker Routes */}
       <Route 
         path="/worker" 
         element={
-          <ProtectedRoute requiredRole="WORKER">
+          <ProtectedRoute permission="incident.create">
             <WorkerDashboard />
           </ProtectedRoute>
         } 
@@ -75,7 +102,7 @@ const AppRoutes: React.FC = () => {
       <Route 
         path="/worker/incidents/new" 
         element={
-          <ProtectedRoute requiredRole="WORKER">
+          <ProtectedRoute permission="incident.create">
             <CreateIncidentPage />
           </ProtectedRoute>
         } 
@@ -83,7 +110,7 @@ const AppRoutes: React.FC = () => {
       <Route 
         path="/worker/incidents/:id" 
         element={
-          <ProtectedRoute requiredRole="WORKER">
+          <ProtectedRoute permission="incident.create">
             <IncidentDetailPage />
           </ProtectedRoute>
         } 
@@ -91,7 +118,7 @@ const AppRoutes: React.FC = () => {
       <Route 
         path="/worker/incidents/:id/edit" 
         element={
-          <ProtectedRoute requiredRole="WORKER">
+          <ProtectedRoute permission="incident.edit_own">
             <EditIncidentPage />
           </ProtectedRoute>
         } 
@@ -101,7 +128,7 @@ const AppRoutes: React.FC = () => {
       <Route 
         path="/manager" 
         element={
-          <ProtectedRoute requiredRole="MANAGER">
+          <ProtectedRoute permission="incident.view_all">
             <ManagerDashboard />
           </ProtectedRoute>
         } 
@@ -109,19 +136,29 @@ const AppRoutes: React.FC = () => {
       <Route 
         path="/manager/incidents/:id" 
         element={
-          <ProtectedRoute requiredRole="MANAGER">
+          <ProtectedRoute permission="incident.view_all">
             <IncidentDetailPage />
           </ProtectedRoute>
         } 
       />
 
+      {/* Admin Routes */}
+      <Route 
+        path="/admin/users" 
+        element={
+          <ProtectedRoute permission="user.manage">
+            <AdminUsersPage />
+          </ProtectedRoute>
+        } 
+      />
+
       {/* Default redirects */}
       <Route 
         path="/" 
         element={
           <Navigate to={
             !isAuthenticated ? '/login' : 
-            user?.role === 'MANAGER' ? '/manager' : '/worker'
+            getHomePath(user)
           } replace />
         } 
       />
@@ -142,7 +179,11 @@ const App: React.FC = () => {
             }}
           >
             <div className="min-h-screen bg-background">
+              <SessionExpiryBanner />
+              <RateLimitBanner />
               <AppRoutes />
+              <IdleTimeoutDialog />
+              <Toaster />
             </div>
           </Router>
         </AuthProvider>
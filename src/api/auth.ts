@@ -1,39 +1,75 @@
 import { apiClient } from './client';
-import { AuthResponse, BackendAuthResponse, LoginRequest, RegisterRequest } from '@/types';
+import {
+  backendAuthResponseSchema,
+  inviteValidationSchema,
+  parseResponse,
+  resetTokenValidationSchema,
+} from './schemas';
+import { getUserFromToken } from '@/lib/jwt';
+import { clearStoredSession } from '@/lib/session';
+import {
+  AuthResponse,
+  BackendAuthResponse,
+  ForgotPasswordRequest,
+  InviteValidation,
+  LoginRequest,
+  RegisterRequest,
+  ResetPasswordRequest,
+  ResetTokenValidation,
+  User,
+} from '@/types';
+
+// The backend only returns the token and role - the user's identity comes from the token claims
+const toAuthResponse = (response: BackendAuthResponse, fallback: Partial<User>): AuthResponse => {
+  const user = getUserFromToken(response.token, { role: response.role, ...fallback });
+  if (!user) {
+    throw new Error('The server returned an invalid session token. Please try again.');
+  }
+
+  return {
+    token: response.token,
+    refreshToken: response.refreshToken,
+    user,
+  };
+};
 
 export const authApi = {
   login: async (data: LoginRequest): Promise<AuthResponse> => {
-    const response = await apiClient.post<BackendAuthResponse>('/auth/login', data);
-    
-    // Transform backend response to frontend format
-    return {
-      token: response.data.token,
-      user: {
-        id: 1, // Backend doesn't seem to return ID, using placeholder
-        name: data.email.split('@')[0], // Extract name from email as placeholder
-        email: data.email,
-        role: response.data.role
-      }
-    };
+    const response = await apiClient.post('/auth/login', data);
+    return toAuthResponse(parseResponse(backendAuthResponseSchema, response), { email: data.email });
   },
 
   register: async (data: RegisterRequest): Promise<AuthResponse> => {
-    const response = await apiClient.post<BackendAuthResponse>('/auth/register', data);
-    
-    // Transform backend response to frontend format
-    return {
-      token: response.data.token,
-      user: {
-        id: 1, // Backend doesn't seem to return ID, using placeholder
-        name: data.name,
-        email: data.email,
-        role: response.data.role
-      }
-    };
+    const response = await apiClient.post('/auth/register', data);
+    return toAuthResponse(parseResponse(backendAuthResponseSchema, response), { email: data.email, name: data.name });
+  },
+
+  // Look up an invite before showing the registration form
+  validateInvite: async (token: string): Promise<InviteValidation> => {
+    const response = await apiClient.get('/auth/invites/validate', {
+      params: { token },
+    });
+    return parseResponse(inviteValidationSchema, response);
+  },
+
+  // Email a password reset link (the backend responds the same whether or not the account exists)
+  forgotPassword: async (data: ForgotPasswordRequest): Promise<void> => {
+    await apiClient.post('/auth/forgot-password', data);
+  },
+
+  // Check a reset link before showing the new password form
+  validateResetToken: async (token: string): Promise<ResetTokenValidation> => {
+    const response = await apiClient.get('/auth/reset-password/validate', {
+      params: { token },
+    });
+    return parseResponse(resetTokenValidationSchema, response);
+  },
+
+  resetPassword: async (data: ResetPasswordRequest): Promise<void> => {
+    await apiClient.post('/auth/reset-password', data);
   },
 
   logout: () => {
-    localStorage.removeItem('safesnap_token');
-    localStorage.removeItem('safesnap_user');
+    clearStoredSession();
   },
 };
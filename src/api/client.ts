@@ -1,8 +1,37 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
-import { ApiError, RateLimitError } from '@/types';
+import axios, { AxiosAdapter, AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { RateLimitError } from '@/types';
+import { SafeSnapApiError, isSafeSnapApiError } from './errors';
+import { backendAuthResponseSchema, parseResponse } from './schemas';
+import {
+  broadcastSession,
+  clearStoredSession,
+  emitSessionEvent,
+  getStoredRefreshToken,
+  getStoredToken,
+  storeSession,
+} from '@/lib/session';
+import { isMockApiEnabled } from '@/lib/config';
+import { enqueueRateLimited, isRateLimited, startRateLimit, waitForRateLimit } from '@/lib/rate-limit';
+
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  _retried?: boolean;
+  _rateLimitRetries?: number;
+  _queued?: boolean;
+}
+
+// Loaded on first use so the mock backend stays out of the main bundle
+const mockAdapter: AxiosAdapter = (config) => {
+  return import('./mock/adapter').then((mock) => mock.mockAdapter(config));
+};
+
+// GETs are safe to repeat; give up after a few windows so a page doesn't spin forever
+const MAX_RATE_LIMIT_RETRIES = 3;
 
 export class ApiClient {
   private client: AxiosInstance;
+  // Shared by every request that fails with 401 while a refresh is running,
+  // so concurrent failures wait for one refresh and are then replayed
+  private refreshPromise: Promise<string> | null = null;
 
   constructor() {
     this.client = axios.create({
@@ -10,6 +39,10 @@ export class ApiClient {
       headers: {
         'Content-Type': 'application/json',
       },
+      // Arrays go out as repeated keys (sort=a&sort=b), which is what Spring binds, not sort[]=a
+      paramsSerializer: { indexes: null },
+      // VITE_USE_MOCK_API=true answers every request in the browser (see src/api/mock)
+      adapter: isMockApiEnabled ? mockAdapter : undefined,
     });
 
     this.setupInterceptors();
@@ -18,8 +51,13 @@ export class ApiClient {
   private setupInterceptors() {
     // Request interceptor to add auth token
     this.client.interceptors.request.use(
-      (config) => {
-        const token = localStorage.getItem('safesnap_token');
+      async (config) => {
+        // Hold new requests while rate limited instead of spending them on more 429s
+        if (isRateLimited()) {
+          await waitForRateLimit();
+        }
+
+        const token = getStoredToken();
         if (token) {
           config.headers.Authorization = `Bearer ${token}`;
         }
@@ -31,24 +69,37 @@ export class ApiClient {
     // Response interceptor for error handling
     this.client.interceptors.response.use(
       (response) => response,
-      (error: AxiosError) => {
-        if (error.response?.status === 401) {
-          // Clear token and redirect to login
-          localStorage.removeItem('safesnap_token');
-          localStorage.removeItem('safesnap_user');
-          window.location.href = '/login';
+      async (error: AxiosError) => {
+        const originalRequest = error.config as RetryableRequestConfig | undefined;
+
+        if (
+          error.response?.status === 401 &&
+          originalRequest &&
+          !originalRequest._retried &&
+          !originalRequest.url?.startsWith('/auth/')
+        ) {
+          originalRequest._retried = true;
+
+          try {
+            const token = await this.refreshSession();
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+            return this.client(originalRequest);
+          } catch {
+            this.expireSession();
+            throw new SafeSnapApiError({ status: 401, message: 'Your session has expired. Please sign in again.' });
+          }
         }
 
         // Handle rate limiting
-        if (error.response?.status === 429) {
-          const rateLimitError: RateLimitError = error.response.data as RateLimitError;
-          throw new Error(`Rate limit exceeded: ${rateLimitError.message}. Try again in ${rateLimitError.retryAfterSeconds} seconds.`);
+        if (error.response?.status === 429 && originalRequest) {
+          const rateLimitError = (error.response.data || {}) as Partial<RateLimitError>;
+          startRateLimit(rateLimitError);
+          return this.retryRateLimited(originalRequest, error.response.status, rateLimitError);
         }
 
-        // Handle API errors
-        if (error.response?.data) {
-          const apiError = error.response.data as ApiError;
-          throw new Error(apiError.message || 'An error occurred');
+        // Handle API errors, keeping status, path and validation errors for the caller
+        if (error.response) {
+          throw SafeSnapApiError.fromResponse(error.response.status, error.response.data);
         }
 
         throw error;
@@ -56,9 +107,93 @@ export class ApiClient {
     );
   }
 
+  // GETs are replayed when the window reopens. Mutations join a queue that keeps
+  // replaying them, in order, until the backend accepts them.
+  private retryRateLimited(
+    originalRequest: RetryableRequestConfig,
+    status: number,
+    rateLimitError: Partial<RateLimitError>
+  ) {
+    // A queued replay was limited again - let the queue loop below wait and resend it
+    if (originalRequest._queued) {
+      throw SafeSnapApiError.fromResponse(status, rateLimitError);
+    }
+
+    if ((originalRequest.method || 'get').toLowerCase() === 'get') {
+      const retries = originalRequest._rateLimitRetries ?? 0;
+      if (retries >= MAX_RATE_LIMIT_RETRIES) {
+        throw SafeSnapApiError.fromResponse(status, rateLimitError);
+      }
+
+      originalRequest._rateLimitRetries = retries + 1;
+      return waitForRateLimit().then(() => this.client(originalRequest));
+    }
+
+    originalRequest._queued = true;
+    return enqueueRateLimited(async () => {
+      for (;;) {
+        await waitForRateLimit();
+        try {
+          return await this.client(originalRequest);
+        } catch (retryError) {
+          if (!isSafeSnapApiError(retryError) || retryError.status !== 429) {
+            throw retryError;
+          }
+        }
+      }
+    });
+  }
+
+  // Exchange the stored refresh token for a new access token. Only one refresh runs at a time.
+  public refreshSession(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestNewToken().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async requestNewToken(): Promise<string> {
+    const refreshToken = getStoredRefreshToken();
+    if (!refreshToken) {
+      throw new Error('No refresh token available');
+    }
+
+    // Plain axios call so a failing refresh can't re-enter the 401 handling above
+    const response = await axios.post(
+      '/auth/refresh',
+      { refreshToken },
+      { baseURL: this.client.defaults.baseURL, adapter: this.client.defaults.adapter }
+    );
+
+    const { token, refreshToken: nextRefreshToken } = parseResponse(backendAuthResponseSchema, response);
+    storeSession(token, nextRefreshToken);
+    emitSessionEvent({ type: 'refreshed', token });
+    broadcastSession({ type: 'refreshed', token });
+    return token;
+  }
+
+  private expireSession() {
+    clearStoredSession();
+    emitSessionEvent({ type: 'expired' });
+    broadcastSession({ type: 'logout' });
+
+    // Send the user to login, keeping where they were so they can come back after signing in
+    const { pathname, search, hash } = window.location;
+    if (pathname !== '/login') {
+      const returnTo = encodeURIComponent(`${pathname}${search}${hash}`);
+      window.location.href = `/login?returnTo=${returnTo}`;
+    }
+  }
+
   public getInstance(): AxiosInstance {
     return this.client;
   }
 }
 
-export const apiClient = new ApiClient().getInstance();
+const client = new ApiClient();
+
+export const apiClient = client.getInstance();
+
+export const refreshSession = () => client.refreshSession();
@@ -0,0 +1,36 @@
+import { apiClient } from './client';
+import { incidentCommentListSchema, incidentCommentSchema, parseResponse, userListItemsSchema } from './schemas';
+import { CreateCommentRequest, IncidentComment, UpdateCommentRequest, User } from '@/types';
+
+export const commentsApi = {
+  // Comments on an incident, oldest first. Internal comments are left out for users who can't see them.
+  getComments: async (incidentId: string): Promise<IncidentComment[]> => {
+    const response = await apiClient.get(`/incidents/${incidentId}/comments`);
+    return parseResponse(incidentCommentListSchema, response);
+  },
+
+  // Post a comment; mentioned users are notified
+  createComment: async (incidentId: string, data: CreateCommentRequest): Promise<IncidentComment> => {
+    const response = await apiClient.post(`/incidents/${incidentId}/comments`, data);
+    return parseResponse(incidentCommentSchema, response);
+  },
+
+  // Edit one of your own comments
+  updateComment: async (incidentId: string, commentId: string, data: UpdateCommentRequest): Promise<IncidentComment> => {
+    const response = await apiClient.put(`/incidents/${incidentId}/comments/${commentId}`, data);
+    return parseResponse(incidentCommentSchema, response);
+  },
+
+  // Delete one of your own comments
+  deleteComment: async (incidentId: string, commentId: string): Promise<void> => {
+    await apiClient.delete(`/incidents/${incidentId}/comments/${commentId}`);
+  },
+
+  // Team members who can see the incident and so can be @mentioned on it
+  getMentionCandidates: async (incidentId: string, search?: string): Promise<User[]> => {
+    const response = await apiClient.get(`/incidents/${incidentId}/comments/mentions`, {
+      params: { search: search || undefined },
+    });
+    return parseResponse(userListItemsSchema, response);
+  },
+};
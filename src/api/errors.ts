@@ -0,0 +1,53 @@
+import { ApiError, ValidationErrors } from '@/types';
+
+// Error thrown by apiClient for every failed backend response. Keeps the whole
+// ApiError payload so callers can show field-level validation messages.
+export class SafeSnapApiError extends Error {
+  readonly status: number;
+  readonly error?: string;
+  readonly path?: string;
+  readonly timestamp?: string;
+  readonly validationErrors: ValidationErrors;
+
+  constructor(payload: Partial<ApiError> & { status: number }) {
+    super(payload.message || payload.error || 'An error occurred');
+    this.name = 'SafeSnapApiError';
+    this.status = payload.status;
+    this.error = payload.error;
+    this.path = payload.path;
+    this.timestamp = payload.timestamp;
+    this.validationErrors = payload.validationErrors || {};
+  }
+
+  // The backend sometimes answers with a plain string or an empty body instead of an ApiError
+  static fromResponse(status: number, data: unknown): SafeSnapApiError {
+    if (data && typeof data === 'object') {
+      return new SafeSnapApiError({ ...(data as Partial<ApiError>), status });
+    }
+    return new SafeSnapApiError({
+      status,
+      message: typeof data === 'string' && data.trim() ? data : undefined,
+    });
+  }
+
+  get hasValidationErrors(): boolean {
+    return Object.keys(this.validationErrors).length > 0;
+  }
+}
+
+export const isSafeSnapApiError = (error: unknown): error is SafeSnapApiError => {
+  return error instanceof SafeSnapApiError;
+};
+
+// The backend answered, but not in the shape src/api/schemas.ts expects
+export class ApiContractError extends Error {
+  readonly endpoint: string;
+  readonly issues: string[];
+
+  constructor(endpoint: string, issues: string[]) {
+    super('The server sent a response this version of SafeSnap does not understand. Please try again or contact support.');
+    this.name = 'ApiContractError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
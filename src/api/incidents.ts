@@ -1,62 +1,101 @@
 import { apiClient } from './client';
+import {
+  incidentHistorySchema,
+  incidentListSchema,
+  incidentSchema,
+  parseResponse,
+  trashedIncidentListSchema,
+} from './schemas';
 import {
   IncidentListResponse,
   IncidentDetail,
+  IncidentHistoryEntry,
   CreateIncidentRequest,
   UpdateIncidentRequest,
+  DeleteIncidentRequest,
   IncidentQueryParams,
   IncidentStatus,
+  TrashedIncidentListResponse,
 } from '@/types';
+import { toApiSort } from '@/lib/incident-sort';
+
+// Sort keys go out as the properties the API sorts on, e.g. severityRank for severity
+const toListParams = (params?: IncidentQueryParams) =>
+  params?.sort ? { ...params, sort: toApiSort(params.sort) } : params;
 
 export const incidentsApi = {
   // Get user's incidents (paginated) with frontend proxy URLs
   getMyIncidents: async (params?: IncidentQueryParams): Promise<IncidentListResponse> => {
-    const response = await apiClient.get<IncidentListResponse>('/incidents/frontend', { params });
-    return response.data;
+    const response = await apiClient.get('/incidents/frontend', { params: toListParams(params) });
+    return parseResponse(incidentListSchema, response);
   },
 
   // Get all team incidents (managers only) with frontend proxy URLs
   getAllIncidents: async (params?: IncidentQueryParams): Promise<IncidentListResponse> => {
-    const response = await apiClient.get<IncidentListResponse>('/incidents/all/frontend', { params });
-    return response.data;
+    const response = await apiClient.get('/incidents/all/frontend', { params: toListParams(params) });
+    return parseResponse(incidentListSchema, response);
   },
 
   // Get specific incident details with frontend proxy URLs
   getIncident: async (id: string): Promise<IncidentDetail> => {
-    const response = await apiClient.get<IncidentDetail>(`/incidents/${id}/frontend`);
-    return response.data;
+    const response = await apiClient.get(`/incidents/${id}/frontend`);
+    return parseResponse(incidentSchema, response);
+  },
+
+  // Everything that has happened to an incident, oldest first
+  getHistory: async (id: string): Promise<IncidentHistoryEntry[]> => {
+    const response = await apiClient.get(`/incidents/${id}/history`);
+    return parseResponse(incidentHistorySchema, response);
   },
 
   // Create new incident
   createIncident: async (data: CreateIncidentRequest): Promise<IncidentDetail> => {
-    const response = await apiClient.post<IncidentDetail>('/incidents', data);
-    return response.data;
+    const response = await apiClient.post('/incidents', data);
+    return parseResponse(incidentSchema, response);
   },
 
   // Update existing incident
   updateIncident: async (id: string, data: UpdateIncidentRequest): Promise<IncidentDetail> => {
-    const response = await apiClient.put<IncidentDetail>(`/incidents/${id}`, data);
-    return response.data;
+    const response = await apiClient.put(`/incidents/${id}`, data);
+    return parseResponse(incidentSchema, response);
+  },
+
+  // Move incident to the trash (managers only). The reason is kept in the incident's history.
+  deleteIncident: async (id: string, data: DeleteIncidentRequest): Promise<void> => {
+    await apiClient.delete(`/incidents/${id}`, { data });
+  },
+
+  // Incidents in the trash that can still be restored (managers only)
+  getTrashedIncidents: async (params?: IncidentQueryParams): Promise<TrashedIncidentListResponse> => {
+    const response = await apiClient.get('/incidents/trash', { params: toListParams(params) });
+    return parseResponse(trashedIncidentListSchema, response);
   },
 
-  // Delete incident (managers only)
-  deleteIncident: async (id: string): Promise<void> => {
-    await apiClient.delete(`/incidents/${id}`);
+  // Restore incident from the trash (managers only)
+  restoreIncident: async (id: string): Promise<IncidentDetail> => {
+    const response = await apiClient.post(`/incidents/${id}/restore`);
+    return parseResponse(incidentSchema, response);
   },
 
-  // Update incident status (managers only)
-  updateStatus: async (id: string, status: IncidentStatus): Promise<IncidentDetail> => {
-    const response = await apiClient.patch<IncidentDetail>(`/incidents/${id}/status`, null, {
+  // Move incident to the next workflow status (managers only); some steps need a note, see lib/incident-workflow
+  updateStatus: async (id: string, status: IncidentStatus, note?: string): Promise<IncidentDetail> => {
+    const response = await apiClient.patch(`/incidents/${id}/status`, note ? { note } : null, {
       params: { status },
     });
-    return response.data;
+    return parseResponse(incidentSchema, response);
   },
 
   // Assign incident (managers only)
   assignIncident: async (id: string, assigneeEmail: string): Promise<IncidentDetail> => {
-    const response = await apiClient.patch<IncidentDetail>(`/incidents/${id}/assign`, null, {
+    const response = await apiClient.patch(`/incidents/${id}/assign`, null, {
       params: { assigneeEmail },
     });
-    return response.data;
+    return parseResponse(incidentSchema, response);
+  },
+
+  // Remove the current assignee (managers only)
+  unassignIncident: async (id: string): Promise<IncidentDetail> => {
+    const response = await apiClient.patch(`/incidents/${id}/unassign`);
+    return parseResponse(incidentSchema, response);
   },
 };
@@ -1,16 +1,17 @@
 import { apiClient } from './client';
+import { metricsSummarySchema, parseResponse, rcaStatisticsSchema } from './schemas';
 import { MetricsSummary, RcaStatistics } from '@/types';
 
 export const metricsApi = {
   // Get business metrics summary
   getSummary: async (): Promise<MetricsSummary> => {
-    const response = await apiClient.get<MetricsSummary>('/metrics/summary');
-    return response.data;
+    const response = await apiClient.get('/metrics/summary');
+    return parseResponse(metricsSummarySchema, response);
   },
 
   // Get RCA statistics (managers only)
   getRcaStatistics: async (): Promise<RcaStatistics> => {
-    const response = await apiClient.get<RcaStatistics>('/rca/statistics');
-    return response.data;
+    const response = await apiClient.get('/rca/statistics');
+    return parseResponse(rcaStatisticsSchema, response);
   },
 };
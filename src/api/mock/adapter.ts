@@ -0,0 +1,141 @@
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { ApiError } from '@/types';
+import { MOCK_API_BASE, MockHttpError, MockRequest, MockResponse, MockRoute } from './http';
+import { authRoutes } from './handlers/auth';
+import { userRoutes } from './handlers/users';
+import { incidentRoutes } from './handlers/incidents';
+import { commentRoutes } from './handlers/comments';
+import { rcaRoutes } from './handlers/rca';
+import { metricsRoutes } from './handlers/metrics';
+import { storageRoutes } from './handlers/storage';
+import { savedViewRoutes } from './handlers/saved-views';
+
+// Checked in order, so literal paths must come before parameterised ones that would also match
+const routes: MockRoute[] = [
+  ...authRoutes,
+  ...userRoutes,
+  ...incidentRoutes,
+  ...commentRoutes,
+  ...rcaRoutes,
+  ...metricsRoutes,
+  ...storageRoutes,
+  ...savedViewRoutes,
+];
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  500: 'Internal Server Error',
+};
+
+// Enough latency for loading states to show up in demos
+const simulateLatency = () => new Promise((resolve) => window.setTimeout(resolve, 150 + Math.random() * 250));
+
+const API_BASE_PATH = new URL(MOCK_API_BASE).pathname.replace(/\/$/, '');
+
+// Requests arrive relative to the base URL or, for presigned and proxy URLs, as absolute URLs
+const parseUrl = (url = ''): { path: string; search: URLSearchParams } => {
+  const [target, search] = url.split('?');
+  let path = /^https?:\/\//.test(target) ? new URL(target).pathname : target;
+  if (API_BASE_PATH && path.startsWith(`${API_BASE_PATH}/`)) {
+    path = path.slice(API_BASE_PATH.length);
+  }
+  return { path: path.startsWith('/') ? path : `/${path}`, search: new URLSearchParams(search) };
+};
+
+const parseBody = (data: unknown): unknown => {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+const toRequest = (config: InternalAxiosRequestConfig): { request: MockRequest; route?: MockRoute } => {
+  const method = (config.method || 'get').toUpperCase();
+  const { path, search } = parseUrl(config.url);
+  const query: Record<string, unknown> = { ...Object.fromEntries(search), ...(config.params || {}) };
+  const request: MockRequest = { method, path, params: {}, query, body: parseBody(config.data), config };
+
+  for (const candidate of routes) {
+    if (candidate.method !== method) continue;
+    const match = candidate.pattern.exec(path);
+    if (!match) continue;
+
+    candidate.keys.forEach((key, index) => {
+      request.params[key] = decodeURIComponent(match[index + 1]);
+    });
+    return { request, route: candidate };
+  }
+
+  return { request };
+};
+
+const toErrorBody = (error: MockHttpError, path: string): ApiError => ({
+  timestamp: new Date().toISOString(),
+  status: error.status,
+  error: STATUS_TEXT[error.status] || 'Error',
+  message: error.message,
+  path: `${API_BASE_PATH}${path}`,
+  validationErrors: error.validationErrors,
+});
+
+// Axios adapter that answers every request from the IndexedDB-backed mock handlers.
+// Responses go back through the normal interceptors, so 401 refresh, 429 and error mapping behave as with the real API.
+export const mockAdapter: AxiosAdapter = async (config) => {
+  const { request, route } = toRequest(config);
+  await simulateLatency();
+
+  let status = 200;
+  let data: unknown;
+
+  try {
+    if (!route) {
+      console.warn(`[mock api] No handler for ${request.method} ${request.path}`);
+      throw new MockHttpError(404, `No mock handler for ${request.method} ${request.path}`);
+    }
+
+    const result = await route.handler(request);
+    if (result instanceof MockResponse) {
+      status = result.status;
+      data = result.data;
+    } else {
+      data = result;
+    }
+  } catch (error) {
+    if (!(error instanceof MockHttpError)) {
+      console.error(`[mock api] ${request.method} ${request.path} failed:`, error);
+    }
+    const httpError = error instanceof MockHttpError ? error : new MockHttpError(500, 'Mock backend error');
+    status = httpError.status;
+    data = toErrorBody(httpError, request.path);
+  }
+
+  const response: AxiosResponse = {
+    data,
+    status,
+    statusText: STATUS_TEXT[status] || '',
+    headers: {},
+    config,
+    request: {},
+  };
+
+  if (!config.validateStatus || config.validateStatus(status)) {
+    return response;
+  }
+
+  throw new AxiosError(
+    `Request failed with status code ${status}`,
+    status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    response.request,
+    response
+  );
+};
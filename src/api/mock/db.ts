@@ -0,0 +1,162 @@
+import {
+  IncidentComment,
+  IncidentDetail,
+  IncidentHistoryEntry,
+  RcaAiSuggestions,
+  SavedView,
+  TrashedIncident,
+  UserAccount,
+  UserRole,
+} from '@/types';
+import { buildSeedData } from './seed';
+
+// Records kept by the mock backend, one object store per entry
+export interface MockUser extends UserAccount {
+  password: string;
+}
+
+export interface MockInvite {
+  token: string;
+  email: string;
+  role: UserRole;
+  expiresAt: string;
+  invitedByName?: string;
+  acceptedAt?: string;
+}
+
+export interface MockResetToken {
+  token: string;
+  email: string;
+  expiresAt: string;
+  usedAt?: string;
+}
+
+export interface MockRefreshToken {
+  token: string;
+  userId: number;
+  expiresAt: string;
+}
+
+export interface MockFile {
+  key: string;
+  contentType: string;
+  blob: Blob;
+}
+
+// Pinned and default flags are stored per user, not on the view
+export type MockSavedView = Omit<SavedView, 'pinned' | 'isDefault'>;
+
+export interface MockSavedViewPreferences {
+  email: string;
+  pinnedIds: string[];
+  defaultId?: string;
+}
+
+export interface MockStores {
+  users: MockUser;
+  incidents: IncidentDetail;
+  trash: TrashedIncident;
+  incidentHistory: IncidentHistoryEntry;
+  comments: IncidentComment;
+  invites: MockInvite;
+  resetTokens: MockResetToken;
+  refreshTokens: MockRefreshToken;
+  rcaSuggestions: RcaAiSuggestions;
+  files: MockFile;
+  savedViews: MockSavedView;
+  savedViewPreferences: MockSavedViewPreferences;
+}
+
+export type MockStoreName = keyof MockStores;
+
+export type MockSeedData = { [S in MockStoreName]?: MockStores[S][] };
+
+const DB_NAME = 'safesnap-mock';
+const DB_VERSION = 4;
+
+const STORE_KEYS: Record<MockStoreName, string> = {
+  users: 'id',
+  incidents: 'id',
+  trash: 'id',
+  incidentHistory: 'id',
+  comments: 'id',
+  invites: 'token',
+  resetTokens: 'token',
+  refreshTokens: 'token',
+  rcaSuggestions: 'incidentId',
+  files: 'key',
+  savedViews: 'id',
+  savedViewPreferences: 'email',
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Stores are created (and seeded) the first time they are missing, so bumping DB_VERSION
+// after adding a store seeds just that store and keeps everything demoed so far
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      const transaction = request.transaction!;
+      const seed = buildSeedData();
+
+      (Object.keys(STORE_KEYS) as MockStoreName[]).forEach((name) => {
+        if (database.objectStoreNames.contains(name)) return;
+
+        database.createObjectStore(name, { keyPath: STORE_KEYS[name] });
+        seed[name]?.forEach((record) => transaction.objectStore(name).put(record));
+      });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getStore = async (name: MockStoreName, mode: IDBTransactionMode = 'readonly') => {
+  if (!databasePromise) {
+    databasePromise = openDatabase();
+  }
+  const database = await databasePromise;
+  return database.transaction(name, mode).objectStore(name);
+};
+
+export const getAll = async <S extends MockStoreName>(name: S): Promise<MockStores[S][]> => {
+  const store = await getStore(name);
+  return promisify(store.getAll());
+};
+
+export const getRecord = async <S extends MockStoreName>(
+  name: S,
+  key: IDBValidKey
+): Promise<MockStores[S] | undefined> => {
+  const store = await getStore(name);
+  return promisify(store.get(key));
+};
+
+export const putRecord = async <S extends MockStoreName>(name: S, record: MockStores[S]): Promise<MockStores[S]> => {
+  const store = await getStore(name, 'readwrite');
+  await promisify(store.put(record));
+  return record;
+};
+
+export const deleteRecord = async (name: MockStoreName, key: IDBValidKey): Promise<void> => {
+  const store = await getStore(name, 'readwrite');
+  await promisify(store.delete(key));
+};
+
+// Next id for stores keyed by a sequential number (incident ids are numeric strings and stay taken while in the trash)
+export const nextId = async (name: 'users' | 'incidents'): Promise<number> => {
+  const records: { id: number | string }[] =
+    name === 'incidents' ? [...(await getAll('incidents')), ...(await getAll('trash'))] : await getAll('users');
+  return records.reduce((max, record) => Math.max(max, Number(record.id) || 0), 0) + 1;
+};
@@ -0,0 +1,201 @@
+import { passwordSchema } from '@/lib/validation';
+import { isSelfSignupEnabled } from '@/lib/config';
+import {
+  BackendAuthResponse,
+  ForgotPasswordRequest,
+  InviteValidation,
+  LoginRequest,
+  RegisterRequest,
+  ResetPasswordRequest,
+  ResetTokenValidation,
+} from '@/types';
+import { MockUser, deleteRecord, getAll, getRecord, nextId, putRecord } from '../db';
+import { MockHttpError, MockResponse, route, randomToken } from '../http';
+
+const ACCESS_TOKEN_TTL_MS = 30 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+const base64Url = (value: object): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+// Unsigned JWT shaped like the Spring tokens: the email as sub, no numeric id; lib/jwt never checks signatures
+const issueSession = async (user: MockUser): Promise<BackendAuthResponse> => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const token = [
+    base64Url({ alg: 'none', typ: 'JWT' }),
+    base64Url({
+      sub: user.email,
+      name: user.name,
+      role: user.role,
+      iat: issuedAt,
+      exp: issuedAt + ACCESS_TOKEN_TTL_MS / 1000,
+    }),
+    'mock',
+  ].join('.');
+
+  const refreshToken = randomToken();
+  await putRecord('refreshTokens', {
+    token: refreshToken,
+    userId: user.id,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS).toISOString(),
+  });
+
+  return { token, refreshToken, role: user.role };
+};
+
+export const findUserByEmail = async (email: string): Promise<MockUser | undefined> => {
+  const users = await getAll('users');
+  return users.find((user) => user.email.toLowerCase() === email.trim().toLowerCase());
+};
+
+const validatePassword = (password: string, field: string) => {
+  const result = passwordSchema.safeParse(password);
+  if (!result.success) {
+    throw new MockHttpError(400, 'Validation failed', { [field]: result.error.issues[0].message });
+  }
+};
+
+const isExpired = (expiresAt: string) => new Date(expiresAt).getTime() <= Date.now();
+
+// Invites and reset links would be emailed; the mock prints them to the console instead
+export const logMockEmail = (description: string, path: string) => {
+  console.info(`[mock api] ${description}: ${window.location.origin}${path}`);
+};
+
+export const createResetToken = async (email: string) => {
+  const token = randomToken();
+  await putRecord('resetTokens', {
+    token,
+    email,
+    expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS).toISOString(),
+  });
+  logMockEmail(`Password reset link for ${email}`, `/reset-password/${token}`);
+};
+
+export const authRoutes = [
+  route('POST', '/auth/login', async ({ body }) => {
+    const { email, password } = body as LoginRequest;
+    const user = await findUserByEmail(email);
+
+    if (!user || user.password !== password || user.status === 'INVITED') {
+      throw new MockHttpError(401, 'Invalid email or password');
+    }
+    if (user.status === 'DEACTIVATED') {
+      throw new MockHttpError(403, 'This account has been deactivated. Contact your administrator.');
+    }
+
+    await putRecord('users', { ...user, lastLoginAt: new Date().toISOString() });
+    return issueSession(user);
+  }),
+
+  route('POST', '/auth/register', async ({ body }) => {
+    const data = body as RegisterRequest;
+    validatePassword(data.password, 'password');
+
+    const invite = data.inviteToken ? await getRecord('invites', data.inviteToken) : undefined;
+    if (data.inviteToken && (!invite || invite.acceptedAt || isExpired(invite.expiresAt))) {
+      throw new MockHttpError(400, 'This invitation is no longer valid');
+    }
+    if (!invite && !isSelfSignupEnabled) {
+      throw new MockHttpError(403, 'Registration requires an invitation');
+    }
+
+    const existing = await findUserByEmail(data.email);
+    if (existing && existing.status !== 'INVITED') {
+      throw new MockHttpError(409, 'Registration failed', { email: 'An account with this email already exists' });
+    }
+
+    const user: MockUser = {
+      id: existing?.id ?? (await nextId('users')),
+      name: data.name,
+      email: invite?.email ?? data.email,
+      role: invite?.role ?? 'WORKER',
+      status: 'ACTIVE',
+      password: data.password,
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+      lastLoginAt: new Date().toISOString(),
+    };
+    await putRecord('users', user);
+
+    if (invite) {
+      await putRecord('invites', { ...invite, acceptedAt: new Date().toISOString() });
+    }
+
+    return new MockResponse(201, await issueSession(user));
+  }),
+
+  route('POST', '/auth/refresh', async ({ body }) => {
+    const { refreshToken } = body as { refreshToken: string };
+    const stored = await getRecord('refreshTokens', refreshToken);
+    const user = stored && (await getRecord('users', stored.userId));
+
+    if (!stored || isExpired(stored.expiresAt) || !user || user.status !== 'ACTIVE') {
+      throw new MockHttpError(401, 'Refresh token is invalid or expired');
+    }
+
+    // Refresh tokens rotate on every use
+    await deleteRecord('refreshTokens', refreshToken);
+    return issueSession(user);
+  }),
+
+  route('GET', '/auth/invites/validate', async ({ query }): Promise<InviteValidation> => {
+    const invite = await getRecord('invites', String(query.token));
+    if (!invite || invite.acceptedAt) {
+      return { status: 'INVALID' };
+    }
+
+    return {
+      status: isExpired(invite.expiresAt) ? 'EXPIRED' : 'VALID',
+      email: invite.email,
+      role: invite.role,
+      organizationName: 'SafeSnap Demo Site',
+      expiresAt: invite.expiresAt,
+    };
+  }),
+
+  route('POST', '/auth/forgot-password', async ({ body }) => {
+    const { email } = body as ForgotPasswordRequest;
+    const user = await findUserByEmail(email);
+
+    // Same answer whether or not the account exists
+    if (user && user.status === 'ACTIVE') {
+      await createResetToken(user.email);
+    }
+    return new MockResponse(204);
+  }),
+
+  route('GET', '/auth/reset-password/validate', async ({ query }): Promise<ResetTokenValidation> => {
+    const resetToken = await getRecord('resetTokens', String(query.token));
+    if (!resetToken || resetToken.usedAt) {
+      return { status: 'INVALID' };
+    }
+
+    return {
+      status: isExpired(resetToken.expiresAt) ? 'EXPIRED' : 'VALID',
+      email: resetToken.email,
+      expiresAt: resetToken.expiresAt,
+    };
+  }),
+
+  route('POST', '/auth/reset-password', async ({ body }) => {
+    const { token, newPassword } = body as ResetPasswordRequest;
+    const resetToken = await getRecord('resetTokens', token);
+
+    if (!resetToken || resetToken.usedAt || isExpired(resetToken.expiresAt)) {
+      throw new MockHttpError(400, 'This reset link is no longer valid. Request a new one.');
+    }
+    validatePassword(newPassword, 'newPassword');
+
+    const user = await findUserByEmail(resetToken.email);
+    if (!user) {
+      throw new MockHttpError(400, 'This reset link is no longer valid. Request a new one.');
+    }
+
+    await putRecord('users', { ...user, password: newPassword });
+    await putRecord('resetTokens', { ...resetToken, usedAt: new Date().toISOString() });
+    return new MockResponse(204);
+  }),
+];
@@ -0,0 +1,150 @@
+import { getHomePath, hasPermission } from '@/lib/permissions';
+import { CreateCommentRequest, IncidentComment, IncidentDetail, UpdateCommentRequest, User } from '@/types';
+import { MockUser, deleteRecord, getAll, getRecord, putRecord } from '../db';
+import { MockHttpError, MockRequest, MockResponse, matchesSearch, randomToken, requireUser, route } from '../http';
+import { logMockEmail } from './auth';
+import { getVisibleIncident } from './incidents';
+import { toImageProxyUrl, toStoredFileUrl } from './storage';
+
+const MAX_COMMENT_LENGTH = 2000;
+const MAX_MENTION_CANDIDATES = 8;
+
+const toUser = ({ id, name, email, role }: MockUser): User => ({ id, name, email, role });
+
+const canSeeInternal = (user: MockUser) => hasPermission(user, 'comment.internal');
+
+// The reporter plus everyone who sees all incidents; internal comments exclude the reporter
+const getAudience = async (incident: IncidentDetail, internal: boolean): Promise<MockUser[]> => {
+  return (await getAll('users')).filter(
+    (user) =>
+      user.status === 'ACTIVE' &&
+      (internal
+        ? canSeeInternal(user)
+        : user.email === incident.reportedByEmail || hasPermission(user, 'incident.view_all'))
+  );
+};
+
+const validateComment = (data: UpdateCommentRequest) => {
+  const body = (data.body || '').trim();
+  if (!body && (data.attachmentUrls || []).length === 0) {
+    throw new MockHttpError(400, 'Validation failed', { body: 'Write a comment or attach an image' });
+  }
+  if (body.length > MAX_COMMENT_LENGTH) {
+    throw new MockHttpError(400, 'Validation failed', { body: `Comments can be at most ${MAX_COMMENT_LENGTH} characters` });
+  }
+};
+
+// Only people who can read the comment can be mentioned in it, and each of them hears about it once
+const resolveMentions = async (
+  incident: IncidentDetail,
+  comment: Pick<IncidentComment, 'internal'>,
+  emails: string[],
+  alreadyNotified: string[] = []
+) => {
+  const audience = await getAudience(incident, comment.internal);
+  const mentioned = audience.filter((user) => emails.includes(user.email));
+
+  mentioned
+    .filter((user) => !alreadyNotified.includes(user.email))
+    .forEach((user) =>
+      logMockEmail(`${user.email} was mentioned on "${incident.title}"`, `${getHomePath(user)}/incidents/${incident.id}`)
+    );
+
+  return mentioned.map(({ name, email }) => ({ name, email }));
+};
+
+const toFrontendComment = (comment: IncidentComment): IncidentComment => ({
+  ...comment,
+  attachmentUrls: comment.attachmentUrls.map(toImageProxyUrl),
+});
+
+const getOwnCommentOrThrow = async (request: MockRequest, user: MockUser): Promise<IncidentComment> => {
+  const comment = await getRecord('comments', request.params.commentId);
+  if (!comment || comment.incidentId !== request.params.id) {
+    throw new MockHttpError(404, `Comment ${request.params.commentId} not found`);
+  }
+  if (comment.author.email !== user.email) {
+    throw new MockHttpError(403, 'You can only change your own comments');
+  }
+  return comment;
+};
+
+export const commentRoutes = [
+  route('GET', '/incidents/:id/comments', async (request) => {
+    const user = await requireUser(request);
+    const incident = await getVisibleIncident(request, user);
+
+    return (await getAll('comments'))
+      .filter((comment) => comment.incidentId === incident.id && (!comment.internal || canSeeInternal(user)))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(toFrontendComment);
+  }),
+
+  route('GET', '/incidents/:id/comments/mentions', async (request): Promise<User[]> => {
+    const user = await requireUser(request);
+    const incident = await getVisibleIncident(request, user);
+
+    return (await getAudience(incident, false))
+      .filter((candidate) => candidate.id !== user.id)
+      .filter((candidate) => matchesSearch(request.query.search, candidate.name, candidate.email))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .slice(0, MAX_MENTION_CANDIDATES)
+      .map(toUser);
+  }),
+
+  route('POST', '/incidents/:id/comments', async (request) => {
+    const user = await requireUser(request);
+    const incident = await getVisibleIncident(request, user);
+    const data = request.body as CreateCommentRequest;
+    validateComment(data);
+
+    if (data.internal && !canSeeInternal(user)) {
+      throw new MockHttpError(403, 'You do not have permission to post internal comments');
+    }
+
+    const internal = Boolean(data.internal);
+    const comment = await putRecord('comments', {
+      id: randomToken(),
+      incidentId: incident.id,
+      body: data.body.trim(),
+      author: toUser(user),
+      internal,
+      mentions: await resolveMentions(incident, { internal }, data.mentionedEmails || []),
+      attachmentUrls: (data.attachmentUrls || []).map((url) => toStoredFileUrl(url, 'images')),
+      createdAt: new Date().toISOString(),
+    });
+
+    return new MockResponse(201, toFrontendComment(comment));
+  }),
+
+  route('PUT', '/incidents/:id/comments/:commentId', async (request) => {
+    const user = await requireUser(request);
+    const incident = await getVisibleIncident(request, user);
+    const comment = await getOwnCommentOrThrow(request, user);
+    const data = request.body as UpdateCommentRequest;
+    validateComment(data);
+
+    const updated = await putRecord('comments', {
+      ...comment,
+      body: data.body.trim(),
+      mentions: await resolveMentions(
+        incident,
+        comment,
+        data.mentionedEmails || [],
+        comment.mentions.map((mention) => mention.email)
+      ),
+      attachmentUrls: (data.attachmentUrls || []).map((url) => toStoredFileUrl(url, 'images')),
+      updatedAt: new Date().toISOString(),
+    });
+
+    return toFrontendComment(updated);
+  }),
+
+  route('DELETE', '/incidents/:id/comments/:commentId', async (request) => {
+    const user = await requireUser(request);
+    await getVisibleIncident(request, user);
+    const comment = await getOwnCommentOrThrow(request, user);
+    await deleteRecord('comments', comment.id);
+    return new MockResponse(204);
+  }),
+];
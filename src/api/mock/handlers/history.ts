@@ -0,0 +1,28 @@
+import { IncidentHistoryAction, IncidentHistoryEntry } from '@/types';
+import { MockUser, getAll, putRecord } from '../db';
+import { randomToken } from '../http';
+
+// Append an entry to an incident's audit trail
+export const recordHistory = (
+  incidentId: string,
+  user: MockUser,
+  action: IncidentHistoryAction,
+  details: Partial<Pick<IncidentHistoryEntry, 'changes' | 'reason'>> = {}
+) => {
+  return putRecord('incidentHistory', {
+    id: randomToken(),
+    incidentId,
+    action,
+    actorName: user.name,
+    actorEmail: user.email,
+    occurredAt: new Date().toISOString(),
+    changes: [],
+    ...details,
+  });
+};
+
+export const getIncidentHistory = async (incidentId: string): Promise<IncidentHistoryEntry[]> => {
+  return (await getAll('incidentHistory'))
+    .filter((entry) => entry.incidentId === incidentId)
+    .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+};
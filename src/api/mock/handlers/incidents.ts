@@ -0,0 +1,347 @@
+import { DEFAULT_SORT, compareIncidents, fromApiSort, parseSort } from '@/lib/incident-sort';
+import { validateTransition } from '@/lib/incident-workflow';
+import { hasPermission } from '@/lib/permissions';
+import { omit } from '@/lib/utils';
+import {
+  CreateIncidentRequest,
+  DeleteIncidentRequest,
+  IncidentDetail,
+  IncidentFieldChange,
+  IncidentSort,
+  IncidentStatus,
+  TrashedIncident,
+  UpdateIncidentRequest,
+} from '@/types';
+import { MockUser, deleteRecord, getAll, getRecord, nextId, putRecord } from '../db';
+import { MockHttpError, MockRequest, MockResponse, matchesSearch, paginate, requireUser, route } from '../http';
+import { findUserByEmail } from './auth';
+import { getIncidentHistory, recordHistory } from './history';
+import { toFrontendIncident, toStoredFileUrl } from './storage';
+
+const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Mirrors the Bean Validation rules on the backend's incident DTO
+const validateIncident = (data: CreateIncidentRequest) => {
+  const errors: Record<string, string> = {};
+  if (!data.title || data.title.trim().length < 5) {
+    errors.title = 'Title must be at least 5 characters';
+  }
+  if (!data.description || data.description.trim().length < 10) {
+    errors.description = 'Description must be at least 10 characters';
+  }
+  if (Object.keys(errors).length > 0) {
+    throw new MockHttpError(400, 'Validation failed', errors);
+  }
+};
+
+const toIncidentFields = (data: CreateIncidentRequest) => ({
+  title: data.title.trim(),
+  description: data.description.trim(),
+  severity: data.severity,
+  latitude: data.latitude,
+  longitude: data.longitude,
+  locationDescription: data.locationDescription,
+  imageUrls: (data.imageUrls || []).map((url) => toStoredFileUrl(url, 'images')),
+  audioUrls: (data.audioUrls || []).map((url) => toStoredFileUrl(url, 'audio')),
+});
+
+const formatLocation = (incident: Pick<IncidentDetail, 'latitude' | 'longitude'>) =>
+  incident.latitude !== undefined && incident.longitude !== undefined
+    ? `${incident.latitude.toFixed(5)}, ${incident.longitude.toFixed(5)}`
+    : undefined;
+
+// Before/after values for every field an edit changed
+const diffFields = (before: IncidentDetail, after: ReturnType<typeof toIncidentFields>): IncidentFieldChange[] => {
+  const changes: IncidentFieldChange[] = [];
+  const compare = (field: string, oldValue?: string, newValue?: string) => {
+    if ((oldValue || undefined) !== (newValue || undefined)) {
+      changes.push({ field, oldValue, newValue });
+    }
+  };
+
+  compare('title', before.title, after.title);
+  compare('description', before.description, after.description);
+  compare('severity', before.severity, after.severity);
+  compare('locationDescription', before.locationDescription, after.locationDescription);
+  compare('location', formatLocation(before), formatLocation(after));
+  return changes;
+};
+
+// Media changes are recorded as file counts; the storage URLs mean nothing to a reader
+const diffMedia = (before: IncidentDetail, after: ReturnType<typeof toIncidentFields>): IncidentFieldChange[] => {
+  const changes: IncidentFieldChange[] = [];
+  for (const field of ['imageUrls', 'audioUrls'] as const) {
+    if (before[field].join('\n') !== after[field].join('\n')) {
+      changes.push({ field, oldValue: String(before[field].length), newValue: String(after[field].length) });
+    }
+  }
+  return changes;
+};
+
+export const getIncidentOrThrow = async (id: string): Promise<IncidentDetail> => {
+  const incident = await getRecord('incidents', id);
+  if (!incident) {
+    throw new MockHttpError(404, `Incident ${id} not found`);
+  }
+  return incident;
+};
+
+// Reporters can always see their own incidents; everything else needs incident.view_all
+export const getVisibleIncident = async (request: MockRequest, user: MockUser): Promise<IncidentDetail> => {
+  const incident = await getIncidentOrThrow(request.params.id);
+  if (incident.reportedByEmail !== user.email && !hasPermission(user, 'incident.view_all')) {
+    throw new MockHttpError(403, 'You do not have permission to view this incident');
+  }
+  return incident;
+};
+
+export const touchIncident = (incident: IncidentDetail, user: MockUser, changes: Partial<IncidentDetail>) => {
+  return putRecord('incidents', {
+    ...incident,
+    ...changes,
+    updatedAt: new Date().toISOString(),
+    updatedBy: user.name,
+  });
+};
+
+// Trashed incidents past their retention period are deleted for good, with their RCA suggestions
+const purgeExpiredTrash = async () => {
+  const now = new Date().toISOString();
+  const expired = (await getAll('trash')).filter((incident) => incident.purgeAt <= now);
+  for (const incident of expired) {
+    await deleteRecord('trash', incident.id);
+    await deleteRecord('rcaSuggestions', incident.id);
+  }
+};
+
+// Great-circle distance in kilometres
+const distanceKm = (lat1: number, lng1: number, lat2: number, lng2: number) => {
+  const toRad = (degrees: number) => (degrees * Math.PI) / 180;
+  const a = Math.sin(toRad(lat2 - lat1) / 2) ** 2
+    + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(toRad(lng2 - lng1) / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// Date filters are calendar days in the user's time zone, both ends inclusive
+const withinReportedRange = (reportedAt: string, from: unknown, to: unknown) => {
+  const time = new Date(reportedAt).getTime();
+  if (typeof from === 'string' && from && time < new Date(`${from}T00:00:00`).getTime()) return false;
+  if (typeof to === 'string' && to && time > new Date(`${to}T23:59:59.999`).getTime()) return false;
+  return true;
+};
+
+const withinRadius = (incident: IncidentDetail, query: Record<string, unknown>) => {
+  const radiusKm = Number(query.radiusKm);
+  if (!query.radiusKm || !radiusKm) return true;
+  if (incident.latitude == null || incident.longitude == null) return false;
+  return distanceKm(Number(query.nearLatitude), Number(query.nearLongitude), incident.latitude, incident.longitude) <= radiusKm;
+};
+
+const listIncidents = async (request: MockRequest, filter: (incident: IncidentDetail) => boolean) => {
+  const { query } = request;
+  // Suggestions live in their own store here; the real API embeds them in the incident
+  const suggestionStatus = new Map((await getAll('rcaSuggestions')).map((item) => [item.incidentId, item.status]));
+  const imageTag = typeof query.imageTag === 'string' ? query.imageTag.trim().toLowerCase() : '';
+  const requestedSort = ([] as unknown[])
+    .concat(query.sort ?? [])
+    .map(fromApiSort)
+    .filter((item): item is IncidentSort => item !== null);
+  const sort = requestedSort.length > 0 ? requestedSort : DEFAULT_SORT;
+
+  const incidents = (await getAll('incidents'))
+    .filter(filter)
+    .filter((incident) => !query.status || incident.status === query.status)
+    .filter((incident) => !query.severity || incident.severity === query.severity)
+    .filter((incident) =>
+      matchesSearch(query.search, incident.title, incident.description, incident.locationDescription, incident.reportedBy)
+    )
+    .filter((incident) => withinReportedRange(incident.reportedAt, query.reportedFrom, query.reportedTo))
+    .filter((incident) => matchesSearch(query.reporter, incident.reportedBy, incident.reportedByEmail))
+    .filter((incident) =>
+      query.assignee === 'none'
+        ? !incident.assignedToEmail
+        : matchesSearch(query.assignee, incident.assignedTo, incident.assignedToEmail)
+    )
+    .filter((incident) => query.hasRca === undefined || String(!!incident.rcaReport) === String(query.hasRca))
+    .filter((incident) => !query.rcaStatus || suggestionStatus.get(incident.id) === query.rcaStatus)
+    .filter((incident) => !imageTag || incident.imageTags.some((tag) => tag.toLowerCase().includes(imageTag)))
+    .filter((incident) => matchesSearch(query.location, incident.locationDescription))
+    .filter((incident) => withinRadius(incident, query))
+    .sort(compareIncidents(sort));
+
+  const page = paginate(incidents, query, 10);
+  return {
+    ...page,
+    pageable: { ...page.pageable, sort: { sorted: true, ascending: parseSort(sort[0])?.direction === 'asc' } },
+    content: await Promise.all(page.content.map(toFrontendIncident)),
+  };
+};
+
+export const incidentRoutes = [
+  route('GET', '/incidents/frontend', async (request) => {
+    const user = await requireUser(request);
+    return listIncidents(request, (incident) => incident.reportedByEmail === user.email);
+  }),
+
+  route('GET', '/incidents/all/frontend', async (request) => {
+    await requireUser(request, 'incident.view_all');
+    return listIncidents(request, () => true);
+  }),
+
+  route('GET', '/incidents/trash', async (request) => {
+    await requireUser(request, 'incident.delete');
+    await purgeExpiredTrash();
+
+    const trash = (await getAll('trash'))
+      .filter((incident) => matchesSearch(request.query.search, incident.title, incident.description, incident.deletionReason))
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+    const page = paginate(trash, request.query, 10);
+    return { ...page, content: await Promise.all(page.content.map(toFrontendIncident)) };
+  }),
+
+  route('GET', '/incidents/:id/frontend', async (request) => {
+    const user = await requireUser(request);
+    return toFrontendIncident(await getVisibleIncident(request, user));
+  }),
+
+  route('GET', '/incidents/:id/history', async (request) => {
+    const user = await requireUser(request);
+    const incident = await getVisibleIncident(request, user);
+    return getIncidentHistory(incident.id);
+  }),
+
+  route('POST', '/incidents', async (request) => {
+    const user = await requireUser(request, 'incident.create');
+    const data = request.body as CreateIncidentRequest;
+    validateIncident(data);
+
+    const incident = await putRecord('incidents', {
+      id: String(await nextId('incidents')),
+      ...toIncidentFields(data),
+      status: 'OPEN',
+      reportedBy: user.name,
+      reportedByEmail: user.email,
+      reportedAt: new Date().toISOString(),
+      aiSuggestions: [],
+      imageTags: [],
+      transcriptions: [],
+    });
+    await recordHistory(incident.id, user, 'CREATED');
+
+    return new MockResponse(201, await toFrontendIncident(incident));
+  }),
+
+  route('PUT', '/incidents/:id', async (request) => {
+    const user = await requireUser(request, 'incident.edit_own');
+    const incident = await getIncidentOrThrow(request.params.id);
+    if (incident.reportedByEmail !== user.email) {
+      throw new MockHttpError(403, 'You can only edit incidents you reported');
+    }
+
+    const data = request.body as UpdateIncidentRequest;
+    validateIncident(data);
+    const fields = toIncidentFields(data);
+
+    const fieldChanges = diffFields(incident, fields);
+    if (fieldChanges.length > 0) {
+      await recordHistory(incident.id, user, 'UPDATED', { changes: fieldChanges });
+    }
+    const mediaChanges = diffMedia(incident, fields);
+    if (mediaChanges.length > 0) {
+      await recordHistory(incident.id, user, 'MEDIA_UPDATED', { changes: mediaChanges });
+    }
+
+    return toFrontendIncident(await touchIncident(incident, user, fields));
+  }),
+
+  // Soft delete: the incident moves to the trash until the retention period runs out
+  route('DELETE', '/incidents/:id', async (request) => {
+    const user = await requireUser(request, 'incident.delete');
+    const incident = await getIncidentOrThrow(request.params.id);
+
+    const reason = String((request.body as Partial<DeleteIncidentRequest> | undefined)?.reason ?? '').trim();
+    if (!reason) {
+      throw new MockHttpError(400, 'Validation failed', { reason: 'A reason is required to delete an incident' });
+    }
+
+    const deletedAt = new Date();
+    const trashed: TrashedIncident = {
+      ...incident,
+      deletedAt: deletedAt.toISOString(),
+      deletedBy: user.name,
+      deletionReason: reason,
+      purgeAt: new Date(deletedAt.getTime() + TRASH_RETENTION_MS).toISOString(),
+    };
+    await putRecord('trash', trashed);
+    await deleteRecord('incidents', incident.id);
+    await recordHistory(incident.id, user, 'DELETED', { reason });
+    return new MockResponse(204);
+  }),
+
+  route('POST', '/incidents/:id/restore', async (request) => {
+    const user = await requireUser(request, 'incident.delete');
+    await purgeExpiredTrash();
+
+    const trashed = await getRecord('trash', request.params.id);
+    if (!trashed) {
+      throw new MockHttpError(404, `Incident ${request.params.id} is not in the trash`);
+    }
+
+    const incident = omit(trashed, ['deletedAt', 'deletedBy', 'deletionReason', 'purgeAt']);
+    const restored = await touchIncident(incident, user, {});
+    await deleteRecord('trash', trashed.id);
+    await recordHistory(incident.id, user, 'RESTORED');
+    return toFrontendIncident(restored);
+  }),
+
+  route('PATCH', '/incidents/:id/status', async (request) => {
+    const user = await requireUser(request, 'incident.update_status');
+    const incident = await getIncidentOrThrow(request.params.id);
+    const status = request.query.status as IncidentStatus;
+    const note = (request.body as { note?: string } | undefined)?.note?.trim() || undefined;
+
+    // Suggestions live in their own store here; the real API embeds them in the incident
+    const rcaAiSuggestions = await getRecord('rcaSuggestions', incident.id);
+    const errors = validateTransition({ ...incident, rcaAiSuggestions }, status, note);
+    if (errors) {
+      throw new MockHttpError(400, errors.status ?? 'Validation failed', errors);
+    }
+
+    await recordHistory(incident.id, user, 'STATUS_CHANGED', {
+      changes: [{ field: 'status', oldValue: incident.status, newValue: status }],
+      reason: note,
+    });
+    return toFrontendIncident(await touchIncident(incident, user, { status }));
+  }),
+
+  route('PATCH', '/incidents/:id/assign', async (request) => {
+    const user = await requireUser(request, 'incident.assign');
+    const incident = await getIncidentOrThrow(request.params.id);
+
+    const assignee = await findUserByEmail(String(request.query.assigneeEmail || ''));
+    if (!assignee || assignee.status !== 'ACTIVE') {
+      throw new MockHttpError(400, 'Assignee must be an active user', { assigneeEmail: 'No active user with this email' });
+    }
+
+    if (assignee.email !== incident.assignedToEmail) {
+      await recordHistory(incident.id, user, 'ASSIGNED', {
+        changes: [{ field: 'assignedTo', oldValue: incident.assignedTo, newValue: assignee.name }],
+      });
+    }
+    return toFrontendIncident(
+      await touchIncident(incident, user, { assignedTo: assignee.name, assignedToEmail: assignee.email })
+    );
+  }),
+
+  route('PATCH', '/incidents/:id/unassign', async (request) => {
+    const user = await requireUser(request, 'incident.assign');
+    const incident = await getIncidentOrThrow(request.params.id);
+    if (incident.assignedTo) {
+      await recordHistory(incident.id, user, 'UNASSIGNED', {
+        changes: [{ field: 'assignedTo', oldValue: incident.assignedTo }],
+      });
+    }
+    return toFrontendIncident(await touchIncident(incident, user, { assignedTo: undefined, assignedToEmail: undefined }));
+  }),
+];
@@ -0,0 +1,37 @@
+import { IncidentSeverity, IncidentStatus, MetricsSummary } from '@/types';
+import { getAll } from '../db';
+import { requireUser, route } from '../http';
+
+const STATUSES: IncidentStatus[] = ['OPEN', 'IN_PROGRESS', 'UNDER_REVIEW', 'RESOLVED', 'CLOSED', 'CANCELLED'];
+const SEVERITIES: IncidentSeverity[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+const countBy = <K extends string>(keys: K[], values: K[]): Record<K, number> => {
+  return Object.fromEntries(keys.map((key) => [key, values.filter((value) => value === key).length])) as Record<K, number>;
+};
+
+export const metricsRoutes = [
+  route('GET', '/metrics/summary', async (request): Promise<MetricsSummary> => {
+    await requireUser(request);
+    const [incidents, users] = await Promise.all([getAll('incidents'), getAll('users')]);
+    const activeUsers = users.filter((user) => user.status === 'ACTIVE');
+
+    const resolved = incidents.filter((incident) => incident.status === 'RESOLVED' || incident.status === 'CLOSED');
+    const resolutionHours = resolved.map(
+      (incident) => (new Date(incident.updatedAt ?? incident.reportedAt).getTime() - new Date(incident.reportedAt).getTime()) / 3_600_000
+    );
+
+    return {
+      totalIncidents: incidents.length,
+      openIncidents: incidents.filter((incident) => incident.status === 'OPEN').length,
+      resolvedIncidents: resolved.length,
+      totalUsers: users.length,
+      activeWorkers: activeUsers.filter((user) => user.role === 'WORKER').length,
+      totalManagers: activeUsers.filter((user) => user.role !== 'WORKER').length,
+      averageResolutionTimeHours: resolutionHours.length
+        ? Math.round((resolutionHours.reduce((sum, hours) => sum + hours, 0) / resolutionHours.length) * 10) / 10
+        : 0,
+      incidentsByStatus: countBy(STATUSES, incidents.map((incident) => incident.status)),
+      incidentsBySeverity: countBy(SEVERITIES, incidents.map((incident) => incident.severity)),
+    };
+  }),
+];
@@ -0,0 +1,162 @@
+import {
+  CreateRcaReportRequest,
+  ImageAnalysisRequest,
+  ImageAnalysisResponse,
+  IncidentDetail,
+  RcaAiSuggestions,
+  RcaReport,
+  RcaStatistics,
+} from '@/types';
+import { getAll, getRecord, putRecord } from '../db';
+import { MockHttpError, MockResponse, requireUser, route } from '../http';
+import { recordHistory } from './history';
+import { getIncidentOrThrow, touchIncident } from './incidents';
+
+const GENERATION_DELAY_MS = 1500;
+
+const CATEGORY_KEYWORDS: [string, RegExp][] = [
+  ['Electrical', /wir|electr|panel|cable/i],
+  ['Fire Safety', /fire|exit|smoke|extinguisher/i],
+  ['Slips, Trips and Falls', /slip|trip|fall|wet|spill|ladder|rail/i],
+  ['Vehicles and Equipment', /forklift|vehicle|pallet|rack|conveyor/i],
+  ['Hazardous Substances', /chemical|odour|odor|fume|gas/i],
+];
+
+const IMAGE_TAGS = ['safety hazard', 'industrial', 'warehouse', 'floor', 'equipment', 'signage', 'personal protective equipment'];
+
+const categorize = (incident: IncidentDetail): string => {
+  const text = `${incident.title} ${incident.description}`;
+  return CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0] ?? 'General Safety';
+};
+
+// Canned stand-in for the LLM call, shaped by the incident so demos read sensibly
+const generateSuggestions = async (incident: IncidentDetail): Promise<RcaAiSuggestions> => {
+  await new Promise((resolve) => window.setTimeout(resolve, GENERATION_DELAY_MS));
+  const location = incident.locationDescription || 'the site';
+  const subject = incident.title.toLowerCase();
+
+  return {
+    incidentId: incident.id,
+    incidentTitle: incident.title,
+    suggestedFiveWhys:
+      `1. Why did the ${subject} happen? The hazard at ${location} was not controlled.\n` +
+      '2. Why was it not controlled? It was not picked up during routine checks.\n' +
+      '3. Why was it missed? The inspection checklist does not cover this hazard.\n' +
+      '4. Why not? The checklist has not been reviewed since the area changed.\n' +
+      '5. Why? There is no owner for keeping area checklists up to date.',
+    suggestedCorrectiveAction: `Make ${location} safe, isolate the hazard and brief the team working there.`,
+    suggestedPreventiveAction: 'Assign an owner for the area checklist and add this hazard to the weekly inspection.',
+    incidentCategory: categorize(incident),
+    status: 'GENERATED',
+    generatedAt: new Date().toISOString(),
+  };
+};
+
+const getSuggestionsOrThrow = async (incidentId: string): Promise<RcaAiSuggestions> => {
+  const suggestions = await getRecord('rcaSuggestions', incidentId);
+  if (!suggestions) {
+    throw new MockHttpError(404, 'No RCA suggestions have been generated for this incident');
+  }
+  return suggestions;
+};
+
+export const rcaRoutes = [
+  route('GET', '/incidents/:id/rca/suggestions', async (request) => {
+    const user = await requireUser(request, 'rca.generate');
+    const existing = await getRecord('rcaSuggestions', request.params.id);
+    if (existing) return existing;
+
+    const incident = await getIncidentOrThrow(request.params.id);
+    const suggestions = await putRecord('rcaSuggestions', await generateSuggestions(incident));
+    await recordHistory(incident.id, user, 'RCA_GENERATED');
+    return suggestions;
+  }),
+
+  route('POST', '/incidents/:id/rca/suggestions/review', async (request) => {
+    const user = await requireUser(request, 'rca.review');
+    const suggestions = await getSuggestionsOrThrow(request.params.id);
+    await recordHistory(suggestions.incidentId, user, 'RCA_REVIEWED');
+    return putRecord('rcaSuggestions', {
+      ...suggestions,
+      status: 'REVIEWED',
+      reviewedAt: new Date().toISOString(),
+      reviewedByName: user.name,
+    });
+  }),
+
+  route('POST', '/incidents/:id/rca/suggestions/approve', async (request) => {
+    const user = await requireUser(request, 'rca.approve');
+    const suggestions = await getSuggestionsOrThrow(request.params.id);
+    await recordHistory(suggestions.incidentId, user, 'RCA_APPROVED');
+    return putRecord('rcaSuggestions', {
+      ...suggestions,
+      status: 'APPROVED',
+      reviewedAt: suggestions.reviewedAt ?? new Date().toISOString(),
+      reviewedByName: suggestions.reviewedByName ?? user.name,
+    });
+  }),
+
+  route('POST', '/incidents/:id/rca/approve', async (request) => {
+    const user = await requireUser(request, 'rca.approve');
+    const incident = await getIncidentOrThrow(request.params.id);
+    const data = request.body as CreateRcaReportRequest;
+
+    const report: RcaReport = {
+      id: Number(incident.id),
+      ...data,
+      createdAt: new Date().toISOString(),
+      manager: { id: user.id, name: user.name, email: user.email, role: user.role },
+    };
+    await touchIncident(incident, user, { rcaReport: report });
+    await recordHistory(incident.id, user, 'RCA_REPORT_CREATED');
+    return new MockResponse(201, report);
+  }),
+
+  route('GET', '/rca/statistics', async (request): Promise<RcaStatistics> => {
+    await requireUser(request, 'metrics.view');
+    const suggestions = await getAll('rcaSuggestions');
+    const count = (status: RcaAiSuggestions['status']) => suggestions.filter((s) => s.status === status).length;
+    const failedCount = suggestions.filter((s) => s.errorMessage).length;
+
+    return {
+      totalSuggestions: suggestions.length,
+      generatedCount: count('GENERATED'),
+      reviewedCount: count('REVIEWED'),
+      approvedCount: count('APPROVED'),
+      modifiedCount: 0,
+      failedCount,
+      successRate: suggestions.length ? ((suggestions.length - failedCount) / suggestions.length) * 100 : 100,
+      averageProcessingTimeMs: GENERATION_DELAY_MS,
+      averageTokenUsage: 850,
+    };
+  }),
+
+  route('POST', '/image-analysis/analyze', async (request): Promise<ImageAnalysisResponse> => {
+    const user = await requireUser(request);
+    const { imageUrl, incidentId } = request.body as ImageAnalysisRequest;
+    const tags = IMAGE_TAGS.filter((_, index) => (imageUrl.length + index) % 2 === 0).slice(0, 4);
+
+    const incident = await getRecord('incidents', incidentId);
+    if (incident) {
+      await touchIncident(incident, user, { imageTags: [...new Set([...incident.imageTags, ...tags])] });
+    }
+
+    return {
+      imageUrl,
+      tags,
+      confidenceScore: 0.87,
+      processed: true,
+      processedAt: new Date().toISOString(),
+    };
+  }),
+
+  route('GET', '/image-analysis/status', async (request) => {
+    await requireUser(request);
+    return {
+      status: 'UP',
+      apiEnabled: true,
+      lastSuccessfulCall: new Date().toISOString(),
+      errorCount: 0,
+    };
+  }),
+];
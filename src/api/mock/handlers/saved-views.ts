@@ -0,0 +1,161 @@
+import {
+  CreateSavedViewRequest,
+  IncidentListLayout,
+  SavedView,
+  SavedViewPreferencesRequest,
+  UpdateSavedViewRequest,
+  User,
+} from '@/types';
+import { MockSavedView, MockSavedViewPreferences, MockUser, deleteRecord, getAll, getRecord, putRecord } from '../db';
+import { MockHttpError, MockRequest, MockResponse, randomToken, requireUser, route } from '../http';
+
+const MAX_NAME_LENGTH = 60;
+const LAYOUTS: IncidentListLayout[] = ['list', 'compact', 'board'];
+
+const toUser = ({ id, name, email, role }: MockUser): User => ({ id, name, email, role });
+
+const getPreferences = async (user: MockUser): Promise<MockSavedViewPreferences> => {
+  return (await getRecord('savedViewPreferences', user.email)) ?? { email: user.email, pinnedIds: [] };
+};
+
+const isVisible = (view: MockSavedView, user: MockUser) => view.owner.email === user.email || view.shared;
+
+const toFrontendView = (view: MockSavedView, preferences: MockSavedViewPreferences): SavedView => ({
+  ...view,
+  pinned: preferences.pinnedIds.includes(view.id),
+  isDefault: preferences.defaultId === view.id,
+});
+
+const validateView = async (user: MockUser, data: UpdateSavedViewRequest, viewId?: string) => {
+  if (data.name !== undefined) {
+    const name = data.name.trim();
+    if (!name) {
+      throw new MockHttpError(400, 'Validation failed', { name: 'Give the view a name' });
+    }
+    if (name.length > MAX_NAME_LENGTH) {
+      throw new MockHttpError(400, 'Validation failed', { name: `Names can be at most ${MAX_NAME_LENGTH} characters` });
+    }
+    const taken = (await getAll('savedViews')).some(
+      (view) => view.id !== viewId && view.owner.email === user.email && view.name.toLowerCase() === name.toLowerCase()
+    );
+    if (taken) {
+      throw new MockHttpError(409, 'Could not save view', { name: 'You already have a view with this name' });
+    }
+  }
+  if (data.layout !== undefined && !LAYOUTS.includes(data.layout)) {
+    throw new MockHttpError(400, 'Validation failed', { layout: 'Unknown layout' });
+  }
+};
+
+const getVisibleView = async (request: MockRequest, user: MockUser): Promise<MockSavedView> => {
+  const view = await getRecord('savedViews', request.params.id);
+  if (!view || !isVisible(view, user)) {
+    throw new MockHttpError(404, `Saved view ${request.params.id} not found`);
+  }
+  return view;
+};
+
+const getOwnViewOrThrow = async (request: MockRequest, user: MockUser): Promise<MockSavedView> => {
+  const view = await getVisibleView(request, user);
+  if (view.owner.email !== user.email) {
+    throw new MockHttpError(403, 'You can only change your own views');
+  }
+  return view;
+};
+
+// Only one default per user; pinning order follows the order views were pinned in
+const savePreferences = async (
+  preferences: MockSavedViewPreferences,
+  viewId: string,
+  data: SavedViewPreferencesRequest
+): Promise<MockSavedViewPreferences> => {
+  const pinnedIds = preferences.pinnedIds.filter((id) => id !== viewId);
+  const pinned = data.pinned ?? preferences.pinnedIds.includes(viewId);
+  let defaultId = preferences.defaultId;
+  if (data.isDefault === true) {
+    defaultId = viewId;
+  } else if (data.isDefault === false && defaultId === viewId) {
+    defaultId = undefined;
+  }
+
+  return putRecord('savedViewPreferences', {
+    ...preferences,
+    pinnedIds: pinned ? [...pinnedIds, viewId] : pinnedIds,
+    defaultId,
+  });
+};
+
+export const savedViewRoutes = [
+  route('GET', '/saved-views', async (request) => {
+    const user = await requireUser(request, 'incident.view_all');
+    const preferences = await getPreferences(user);
+    const pinOrder = (view: MockSavedView) => {
+      const index = preferences.pinnedIds.indexOf(view.id);
+      return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+    };
+
+    return (await getAll('savedViews'))
+      .filter((view) => isVisible(view, user))
+      .sort((a, b) => pinOrder(a) - pinOrder(b) || a.name.localeCompare(b.name))
+      .map((view) => toFrontendView(view, preferences));
+  }),
+
+  route('POST', '/saved-views', async (request) => {
+    const user = await requireUser(request, 'incident.view_all');
+    const data = request.body as CreateSavedViewRequest;
+    await validateView(user, { ...data, name: data.name ?? '' });
+
+    const view = await putRecord('savedViews', {
+      id: randomToken(),
+      name: data.name.trim(),
+      query: data.query || '',
+      layout: data.layout || 'list',
+      shared: Boolean(data.shared),
+      owner: toUser(user),
+      createdAt: new Date().toISOString(),
+    });
+    const preferences = await savePreferences(await getPreferences(user), view.id, {
+      pinned: Boolean(data.pinned),
+      isDefault: Boolean(data.isDefault),
+    });
+
+    return new MockResponse(201, toFrontendView(view, preferences));
+  }),
+
+  route('PUT', '/saved-views/:id', async (request) => {
+    const user = await requireUser(request, 'incident.view_all');
+    const view = await getOwnViewOrThrow(request, user);
+    const data = request.body as UpdateSavedViewRequest;
+    await validateView(user, data, view.id);
+
+    const updated = await putRecord('savedViews', {
+      ...view,
+      name: data.name?.trim() ?? view.name,
+      query: data.query ?? view.query,
+      layout: data.layout ?? view.layout,
+      shared: data.shared ?? view.shared,
+      updatedAt: new Date().toISOString(),
+    });
+
+    return toFrontendView(updated, await getPreferences(user));
+  }),
+
+  route('PUT', '/saved-views/:id/preferences', async (request) => {
+    const user = await requireUser(request, 'incident.view_all');
+    const view = await getVisibleView(request, user);
+    const preferences = await savePreferences(
+      await getPreferences(user),
+      view.id,
+      request.body as SavedViewPreferencesRequest
+    );
+    return toFrontendView(view, preferences);
+  }),
+
+  // Other users' pins and defaults on the view are cleaned up lazily: unknown ids are ignored
+  route('DELETE', '/saved-views/:id', async (request) => {
+    const user = await requireUser(request, 'incident.view_all');
+    const view = await getOwnViewOrThrow(request, user);
+    await deleteRecord('savedViews', view.id);
+    return new MockResponse(204);
+  }),
+];
@@ -0,0 +1,88 @@
+import { IncidentDetail } from '@/types';
+import { getRecord, putRecord } from '../db';
+import { MOCK_API_BASE, MockHttpError, MockResponse, randomToken, requireUser, route } from '../http';
+
+const MOCK_BUCKET_URL = 'https://safesnap-mock.s3.amazonaws.com/incidents';
+
+// Audio players can't send the auth header, so the mock serves recordings as object URLs
+const audioObjectUrls = new Map<string, string>();
+
+const getFileKey = (url: string): string => decodeURIComponent(url.split('?')[0].split('/').pop() || '');
+
+export const toImageProxyUrl = (s3Url: string) => `${MOCK_API_BASE}/s3/image-proxy/${encodeURIComponent(getFileKey(s3Url))}`;
+
+const toAudioUrl = async (s3Url: string): Promise<string> => {
+  const key = getFileKey(s3Url);
+  if (!audioObjectUrls.has(key)) {
+    const file = await getRecord('files', key);
+    if (!file) return s3Url;
+    audioObjectUrls.set(key, URL.createObjectURL(file.blob));
+  }
+  return audioObjectUrls.get(key)!;
+};
+
+// What the /frontend incident endpoints return: images behind the authenticated proxy, audio playable directly
+export const toFrontendIncident = async <T extends IncidentDetail>(incident: T): Promise<T> => ({
+  ...incident,
+  imageUrls: incident.imageUrls.map(toImageProxyUrl),
+  audioUrls: await Promise.all(incident.audioUrls.map(toAudioUrl)),
+});
+
+// The edit page sends back the URLs it was given; store the underlying S3 URL again
+export const toStoredFileUrl = (url: string, type: 'images' | 'audio'): string => {
+  if (url.startsWith(MOCK_BUCKET_URL)) return url;
+
+  const audioKey = [...audioObjectUrls.entries()].find(([, objectUrl]) => objectUrl === url)?.[0];
+  const key = audioKey ?? getFileKey(url);
+  return `${MOCK_BUCKET_URL}/${type}/${encodeURIComponent(key)}`;
+};
+
+export const storageRoutes = [
+  route('POST', '/s3/upload-url', async (request) => {
+    const user = await requireUser(request);
+    const { fileType, fileExtension } = request.body as { fileType: 'IMAGE' | 'AUDIO'; fileExtension: string };
+
+    const folder = fileType === 'IMAGE' ? 'images' : 'audio';
+    const key = `user_${user.id}_${Date.now()}_${randomToken().slice(0, 8)}.${fileExtension || 'bin'}`;
+
+    return {
+      uploadUrl: `${MOCK_API_BASE}/s3/mock-upload/${key}`,
+      s3Url: `${MOCK_BUCKET_URL}/${folder}/${key}`,
+      expiresInMinutes: 60,
+    };
+  }),
+
+  // Stands in for the presigned S3 PUT
+  route('PUT', '/s3/mock-upload/:key', async (request) => {
+    await requireUser(request);
+    const blob = request.body instanceof Blob ? request.body : new Blob([JSON.stringify(request.body)]);
+
+    await putRecord('files', {
+      key: request.params.key,
+      contentType: blob.type || 'application/octet-stream',
+      blob,
+    });
+    return new MockResponse(200);
+  }),
+
+  route('POST', '/s3/download-url', async (request) => {
+    await requireUser(request);
+    const { s3Url } = request.body as { s3Url: string };
+    return { downloadUrl: toImageProxyUrl(s3Url) };
+  }),
+
+  route('GET', '/s3/file-exists', async (request) => {
+    await requireUser(request);
+    const file = await getRecord('files', getFileKey(String(request.query.s3Url)));
+    return { exists: !!file };
+  }),
+
+  route('GET', '/s3/image-proxy/:key', async (request) => {
+    await requireUser(request);
+    const file = await getRecord('files', request.params.key);
+    if (!file) {
+      throw new MockHttpError(404, 'File not found');
+    }
+    return file.blob;
+  }),
+];
@@ -0,0 +1,126 @@
+import { hasPermission } from '@/lib/permissions';
+import { omit } from '@/lib/utils';
+import { Assignee, IncidentStatus, InviteUserRequest, UserAccount, UserInvite, UserRole } from '@/types';
+import { MockUser, getAll, getRecord, nextId, putRecord } from '../db';
+import { MockHttpError, MockResponse, matchesSearch, paginate, randomToken, requireUser, route } from '../http';
+import { createResetToken, findUserByEmail, logMockEmail } from './auth';
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Statuses that still count towards someone's workload
+const OPEN_STATUSES: IncidentStatus[] = ['OPEN', 'IN_PROGRESS', 'UNDER_REVIEW'];
+
+// Never send the stored password back
+const toAccount = (user: MockUser): UserAccount => omit(user, ['password']);
+
+const getUserOrThrow = async (id: string): Promise<MockUser> => {
+  const user = await getRecord('users', Number(id));
+  if (!user) {
+    throw new MockHttpError(404, `User ${id} not found`);
+  }
+  return user;
+};
+
+export const userRoutes = [
+  route('GET', '/admin/users', async (request) => {
+    await requireUser(request, 'user.manage');
+    const { query } = request;
+
+    const users = (await getAll('users'))
+      .filter((user) => !query.role || user.role === query.role)
+      .filter((user) => !query.status || user.status === query.status)
+      .filter((user) => matchesSearch(query.search, user.name, user.email))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(toAccount);
+
+    return paginate(users, query);
+  }),
+
+  route('POST', '/admin/users/invite', async (request): Promise<MockResponse> => {
+    const admin = await requireUser(request, 'user.manage');
+    const { email, role } = request.body as InviteUserRequest;
+
+    const existing = await findUserByEmail(email);
+    if (existing && existing.status !== 'INVITED') {
+      throw new MockHttpError(409, 'Invitation failed', { email: 'A user with this email already exists' });
+    }
+
+    await putRecord('users', {
+      id: existing?.id ?? (await nextId('users')),
+      name: email,
+      email,
+      role,
+      status: 'INVITED',
+      password: '',
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+    });
+
+    const invite: UserInvite = {
+      id: randomToken(),
+      email,
+      role,
+      expiresAt: new Date(Date.now() + INVITE_TTL_MS).toISOString(),
+      invitedByName: admin.name,
+    };
+    await putRecord('invites', {
+      token: invite.id,
+      email,
+      role,
+      expiresAt: invite.expiresAt,
+      invitedByName: admin.name,
+    });
+    logMockEmail(`Invitation link for ${email}`, `/register?invite=${invite.id}`);
+
+    return new MockResponse(201, invite);
+  }),
+
+  route('PATCH', '/admin/users/:id/role', async (request) => {
+    await requireUser(request, 'user.manage');
+    const user = await getUserOrThrow(request.params.id);
+    return toAccount(await putRecord('users', { ...user, role: request.query.role as UserRole }));
+  }),
+
+  route('POST', '/admin/users/:id/deactivate', async (request) => {
+    const admin = await requireUser(request, 'user.manage');
+    const user = await getUserOrThrow(request.params.id);
+    if (user.id === admin.id) {
+      throw new MockHttpError(400, 'You cannot deactivate your own account');
+    }
+    return toAccount(await putRecord('users', { ...user, status: 'DEACTIVATED' }));
+  }),
+
+  route('POST', '/admin/users/:id/reactivate', async (request) => {
+    await requireUser(request, 'user.manage');
+    const user = await getUserOrThrow(request.params.id);
+    return toAccount(await putRecord('users', { ...user, status: 'ACTIVE' }));
+  }),
+
+  route('POST', '/admin/users/:id/force-password-reset', async (request) => {
+    await requireUser(request, 'user.manage');
+    const user = await getUserOrThrow(request.params.id);
+    // The old password stops working straight away
+    await putRecord('users', { ...user, password: randomToken() });
+    await createResetToken(user.email);
+    return new MockResponse(204);
+  }),
+
+  // Anyone who can see the whole incident list can be assigned work
+  route('GET', '/users/assignees', async (request): Promise<Assignee[]> => {
+    await requireUser(request, 'incident.assign');
+    const [users, incidents] = await Promise.all([getAll('users'), getAll('incidents')]);
+
+    return users
+      .filter((user) => user.status === 'ACTIVE' && hasPermission(user, 'incident.view_all'))
+      .filter((user) => matchesSearch(request.query.search, user.name, user.email))
+      .map((user) => ({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        openIncidentCount: incidents.filter(
+          (incident) => incident.assignedToEmail === user.email && OPEN_STATUSES.includes(incident.status)
+        ).length,
+      }))
+      .sort((a, b) => a.openIncidentCount - b.openIncidentCount || a.name.localeCompare(b.name));
+  }),
+];
@@ -0,0 +1,111 @@
+import { AxiosRequestConfig } from 'axios';
+import { decodeToken, isTokenExpired } from '@/lib/jwt';
+import { Permission, hasPermission } from '@/lib/permissions';
+import { PaginatedResponse, ValidationErrors } from '@/types';
+import { MockUser, getAll } from './db';
+
+// Absolute base for URLs the mock hands out; media URLs that aren't http(s) are dropped by mediaUrlsSchema
+export const MOCK_API_BASE = new URL(import.meta.env.VITE_API_BASE || '/api', window.location.origin)
+  .toString()
+  .replace(/\/$/, '');
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: Record<string, unknown>;
+  body: unknown;
+  config: AxiosRequestConfig;
+}
+
+export type MockHandler = (request: MockRequest) => unknown;
+
+export interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: MockHandler;
+}
+
+// Thrown by handlers; the adapter turns it into an ApiError response
+export class MockHttpError extends Error {
+  readonly status: number;
+  readonly validationErrors?: ValidationErrors;
+
+  constructor(status: number, message: string, validationErrors?: ValidationErrors) {
+    super(message);
+    this.name = 'MockHttpError';
+    this.status = status;
+    this.validationErrors = validationErrors;
+  }
+}
+
+// Handlers return plain data for a 200; return a MockResponse to pick another status
+export class MockResponse {
+  constructor(readonly status: number, readonly data?: unknown) {}
+}
+
+// Build a route from an Express-style path such as '/incidents/:id/frontend'
+export const route = (method: string, path: string, handler: MockHandler): MockRoute => {
+  const keys: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  return { method: method.toUpperCase(), pattern: new RegExp(`^${source}$`), keys, handler };
+};
+
+// The signed-in user for a request, rejecting it the way the Spring API would
+export const requireUser = async (request: MockRequest, permission?: Permission): Promise<MockUser> => {
+  const header = String(request.config.headers?.Authorization ?? '');
+  const token = header.replace(/^Bearer /, '');
+  const claims = token ? decodeToken(token) : null;
+
+  if (!claims?.sub || isTokenExpired(token)) {
+    throw new MockHttpError(401, 'Full authentication is required to access this resource');
+  }
+
+  // The subject is the email, as in the Spring tokens
+  const subject = claims.sub.toLowerCase();
+  const user = (await getAll('users')).find((account) => account.email.toLowerCase() === subject);
+  if (!user || user.status !== 'ACTIVE') {
+    throw new MockHttpError(401, 'This account is no longer active');
+  }
+
+  if (permission && !hasPermission(user, permission)) {
+    throw new MockHttpError(403, 'You do not have permission to perform this action');
+  }
+
+  return user;
+};
+
+export const paginate = <T>(items: T[], query: Record<string, unknown>, defaultSize = 20): PaginatedResponse<T> => {
+  const page = Math.max(Number(query.page) || 0, 0);
+  const size = Math.max(Number(query.size) || defaultSize, 1);
+  const content = items.slice(page * size, page * size + size);
+  const totalPages = Math.ceil(items.length / size);
+
+  return {
+    content,
+    pageable: {
+      pageNumber: page,
+      pageSize: size,
+      sort: { sorted: false, ascending: false },
+    },
+    totalElements: items.length,
+    totalPages,
+    first: page === 0,
+    last: page >= totalPages - 1,
+    numberOfElements: content.length,
+  };
+};
+
+export const matchesSearch = (search: unknown, ...fields: (string | undefined)[]): boolean => {
+  if (typeof search !== 'string' || !search.trim()) return true;
+  const term = search.trim().toLowerCase();
+  return fields.some((field) => field?.toLowerCase().includes(term));
+};
+
+export const randomToken = (): string => {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,344 @@
+import {
+  IncidentComment,
+  IncidentDetail,
+  IncidentHistoryAction,
+  IncidentHistoryEntry,
+  IncidentSeverity,
+  IncidentStatus,
+  RcaAiSuggestions,
+  TrashedIncident,
+  UserAccountStatus,
+  UserRole,
+} from '@/types';
+import { MockSavedView, MockSavedViewPreferences, MockSeedData, MockUser } from './db';
+
+// Every seeded account signs in with this password
+export const MOCK_PASSWORD = 'Password1';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAgo = (days: number, hours = 0) => new Date(Date.now() - days * DAY_MS - hours * 60 * 60 * 1000).toISOString();
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * DAY_MS).toISOString();
+
+const account = (
+  id: number,
+  name: string,
+  email: string,
+  role: UserRole,
+  status: UserAccountStatus = 'ACTIVE'
+): MockUser => ({
+  id,
+  name,
+  email,
+  role,
+  status,
+  password: MOCK_PASSWORD,
+  createdAt: daysAgo(100 - id * 10),
+  lastLoginAt: status === 'ACTIVE' ? daysAgo(id % 3, id) : undefined,
+});
+
+const buildUsers = (): MockUser[] => [
+  account(1, 'Alex Rivera', 'worker@safesnap.dev', 'WORKER'),
+  account(2, 'Jamie Chen', 'jamie.chen@safesnap.dev', 'WORKER'),
+  account(3, 'Sam Okafor', 'supervisor@safesnap.dev', 'SUPERVISOR'),
+  account(4, 'Priya Nair', 'safety@safesnap.dev', 'SAFETY_OFFICER'),
+  account(5, 'Morgan Lee', 'manager@safesnap.dev', 'MANAGER'),
+  account(6, 'Jordan Blake', 'admin@safesnap.dev', 'ADMIN'),
+  account(7, 'Chris Doyle', 'chris.doyle@safesnap.dev', 'WORKER', 'DEACTIVATED'),
+  account(8, 'new.hire@safesnap.dev', 'new.hire@safesnap.dev', 'WORKER', 'INVITED'),
+];
+
+const incidentSeeds: [string, string, IncidentSeverity, IncidentStatus, string, number, number][] = [
+  ['Forklift near-miss at loading dock', 'Forklift reversed without a spotter and came within a metre of a pedestrian walking the marked lane.', 'HIGH', 'OPEN', 'Loading Dock B', 43.6532, -79.3832],
+  ['Oil spill in aisle 4', 'Hydraulic oil leaking from the pallet jack charging station has spread across the walkway.', 'MEDIUM', 'IN_PROGRESS', 'Warehouse Aisle 4', 43.6545, -79.3801],
+  ['Exposed wiring on conveyor panel', 'The cover of the conveyor control panel is missing and live wiring is exposed at hand height.', 'CRITICAL', 'UNDER_REVIEW', 'Packing Line 2', 43.6511, -79.3855],
+  ['Blocked fire exit', 'Shrink-wrapped pallets stacked in front of the north fire exit door.', 'HIGH', 'RESOLVED', 'North Exit', 43.6558, -79.3847],
+  ['Missing guard rail on mezzanine', 'A section of guard rail on the mezzanine was removed for a delivery and not replaced.', 'CRITICAL', 'OPEN', 'Mezzanine Level', 43.6524, -79.3790],
+  ['Worn ladder rungs', 'Two rungs on the stock room step ladder are cracked.', 'LOW', 'CLOSED', 'Stock Room', 43.6539, -79.3866],
+  ['Poor lighting in parking lot', 'Three lamps in the east parking lot are out, making the walkway hard to see after dark.', 'LOW', 'OPEN', 'East Parking Lot', 43.6502, -79.3812],
+  ['Chemical odour in cleaning store', 'Strong ammonia smell when opening the cleaning supplies cupboard; ventilation fan not running.', 'MEDIUM', 'IN_PROGRESS', 'Cleaning Store', 43.6550, -79.3825],
+  ['Pallet racking damage', 'Upright on rack 12 is bent after a forklift impact. Load is still on the beam.', 'HIGH', 'UNDER_REVIEW', 'Rack 12', 43.6517, -79.3840],
+  ['Slippery entrance after rain', 'No wet floor signs or mats at the main entrance; two people slipped this morning.', 'MEDIUM', 'CANCELLED', 'Main Entrance', 43.6529, -79.3803],
+];
+
+const buildIncidents = (users: MockUser[]): IncidentDetail[] => {
+  const reporters = [users[0], users[1]];
+  const assignees = [users[2], users[3], users[4]];
+
+  const incidents = incidentSeeds.map(
+    ([title, description, severity, status, locationDescription, latitude, longitude], index): IncidentDetail => {
+      const reporter = reporters[index % reporters.length];
+      const assignee = status === 'OPEN' ? undefined : assignees[index % assignees.length];
+      const reportedAt = daysAgo(index * 3 + 1, index * 2);
+
+      return {
+        id: String(index + 1),
+        title,
+        description,
+        severity,
+        status,
+        latitude,
+        longitude,
+        locationDescription,
+        imageUrls: [],
+        audioUrls: [],
+        reportedBy: reporter.name,
+        reportedByEmail: reporter.email,
+        assignedTo: assignee?.name,
+        assignedToEmail: assignee?.email,
+        reportedAt,
+        updatedAt: status === 'OPEN' ? undefined : daysAgo(index * 3, index),
+        updatedBy: assignee?.name,
+        aiSuggestions: [],
+        imageTags: [],
+        transcriptions: [],
+      };
+    }
+  );
+
+  // The resolved blocked-exit incident comes with a finished RCA report
+  incidents[3].rcaReport = {
+    id: 1,
+    fiveWhys:
+      '1. Why was the exit blocked? Pallets were staged in front of it.\n' +
+      '2. Why were they staged there? The staging area was full.\n' +
+      '3. Why was it full? An inbound delivery arrived a day early.\n' +
+      '4. Why was there no overflow plan? Receiving has no documented overflow area.\n' +
+      '5. Why not? Layout changes last quarter removed the old overflow bay.',
+    correctiveAction: 'Pallets moved, exit cleared and floor marking repainted.',
+    preventiveAction: 'Designate a marked overflow bay and add fire exits to the daily walk-through checklist.',
+    createdAt: daysAgo(8),
+    manager: { id: 5, name: 'Morgan Lee', email: 'manager@safesnap.dev', role: 'MANAGER' },
+  };
+
+  return incidents;
+};
+
+const buildRcaSuggestions = (incidents: IncidentDetail[]): RcaAiSuggestions[] => [
+  {
+    incidentId: '3',
+    incidentTitle: incidents[2].title,
+    suggestedFiveWhys:
+      '1. Why was wiring exposed? The panel cover was missing.\n' +
+      '2. Why was it missing? It was removed during maintenance.\n' +
+      '3. Why was it not refitted? The job was closed before the cover was replaced.\n' +
+      '4. Why was the job closed? The work order has no sign-off step for guards and covers.\n' +
+      '5. Why not? Maintenance checklists were not updated for the new conveyor.',
+    suggestedCorrectiveAction: 'Isolate the panel and refit the cover before restarting the line.',
+    suggestedPreventiveAction: 'Add a guard and cover check to the maintenance work order close-out.',
+    incidentCategory: 'Electrical',
+    status: 'GENERATED',
+    generatedAt: daysAgo(6),
+  },
+  {
+    incidentId: '4',
+    incidentTitle: incidents[3].title,
+    suggestedFiveWhys: incidents[3].rcaReport!.fiveWhys,
+    suggestedCorrectiveAction: incidents[3].rcaReport!.correctiveAction,
+    suggestedPreventiveAction: incidents[3].rcaReport!.preventiveAction,
+    incidentCategory: 'Fire Safety',
+    status: 'APPROVED',
+    generatedAt: daysAgo(9),
+    reviewedAt: daysAgo(8),
+    reviewedByName: 'Morgan Lee',
+  },
+];
+
+// A duplicate report already in the trash, so the restore flow has something to show
+const buildTrash = (users: MockUser[]): TrashedIncident[] => [
+  {
+    id: String(incidentSeeds.length + 1),
+    title: 'Oil leak at charging station',
+    description: 'Oil pooling under the pallet jack charger in aisle 4, spreading towards the walkway.',
+    severity: 'MEDIUM',
+    status: 'OPEN',
+    latitude: 43.6545,
+    longitude: -79.3801,
+    locationDescription: 'Warehouse Aisle 4',
+    imageUrls: [],
+    audioUrls: [],
+    reportedBy: users[1].name,
+    reportedByEmail: users[1].email,
+    reportedAt: daysAgo(4, 1),
+    aiSuggestions: [],
+    imageTags: [],
+    transcriptions: [],
+    deletedAt: daysAgo(3),
+    deletedBy: users[4].name,
+    deletionReason: 'Duplicate of "Oil spill in aisle 4"',
+    purgeAt: daysFromNow(27),
+  },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const laterBy = (date: string, ms: number) => new Date(new Date(date).getTime() + ms).toISOString();
+
+// A plausible audit trail for the seeded incidents: reported, assigned by the manager, then worked on
+const buildHistory = (incidents: IncidentDetail[], trash: TrashedIncident[], users: MockUser[]): IncidentHistoryEntry[] => {
+  const manager = users[4];
+  const history: IncidentHistoryEntry[] = [];
+
+  const add = (
+    incident: IncidentDetail,
+    action: IncidentHistoryAction,
+    actor: MockUser,
+    occurredAt: string,
+    details: Partial<IncidentHistoryEntry> = {}
+  ) => {
+    history.push({
+      id: `seed-${incident.id}-${history.length}`,
+      incidentId: incident.id,
+      action,
+      actorName: actor.name,
+      actorEmail: actor.email,
+      occurredAt,
+      changes: [],
+      ...details,
+    });
+  };
+  const userByEmail = (email?: string) => users.find((user) => user.email === email) ?? manager;
+
+  for (const incident of [...incidents, ...trash]) {
+    add(incident, 'CREATED', userByEmail(incident.reportedByEmail), incident.reportedAt);
+
+    if (incident.assignedTo) {
+      add(incident, 'ASSIGNED', manager, laterBy(incident.reportedAt, HOUR_MS), {
+        changes: [{ field: 'assignedTo', newValue: incident.assignedTo }],
+      });
+    }
+    if (incident.status !== 'OPEN') {
+      const changedAt = incident.updatedAt ?? laterBy(incident.reportedAt, 2 * HOUR_MS);
+      add(incident, 'STATUS_CHANGED', userByEmail(incident.assignedToEmail), changedAt, {
+        changes: [{ field: 'status', oldValue: 'OPEN', newValue: incident.status }],
+      });
+    }
+  }
+
+  add(incidents[2], 'RCA_GENERATED', users[3], daysAgo(6));
+  add(incidents[3], 'RCA_GENERATED', manager, daysAgo(9));
+  add(incidents[3], 'RCA_APPROVED', manager, daysAgo(8));
+  add(incidents[3], 'RCA_REPORT_CREATED', manager, daysAgo(8));
+
+  for (const incident of trash) {
+    add(incident, 'DELETED', manager, incident.deletedAt, { reason: incident.deletionReason });
+  }
+
+  return history;
+};
+
+// A short thread on the oil spill, including an internal note the reporting worker can't see
+const buildComments = (incidents: IncidentDetail[], users: MockUser[]): IncidentComment[] => {
+  const [, reporter, , safetyOfficer, manager] = users;
+  const author = ({ id, name, email, role }: MockUser) => ({ id, name, email, role });
+  const incidentId = incidents[1].id;
+
+  return [
+    {
+      id: 'seed-comment-1',
+      incidentId,
+      body: 'Spill kits are on the way. @Jamie Chen is the **charging station** still leaking?',
+      author: author(safetyOfficer),
+      internal: false,
+      mentions: [{ name: reporter.name, email: reporter.email }],
+      attachmentUrls: [],
+      createdAt: daysAgo(3, 5),
+    },
+    {
+      id: 'seed-comment-2',
+      incidentId,
+      body: "Still dripping slowly. I've put cones around it and moved the pallet jacks to bay 2.",
+      author: author(reporter),
+      internal: false,
+      mentions: [],
+      attachmentUrls: [],
+      createdAt: daysAgo(3, 4),
+    },
+    {
+      id: 'seed-comment-3',
+      incidentId,
+      body: 'The charger is out of warranty. Replacement needs sign-off from facilities:\n- quote requested\n- *temporary* charging point in bay 2',
+      author: author(manager),
+      internal: true,
+      mentions: [],
+      attachmentUrls: [],
+      createdAt: daysAgo(3, 2),
+    },
+  ];
+};
+
+// The manager's morning triage views, plus one the admin shares with every manager
+const buildSavedViews = (users: MockUser[]): MockSavedView[] => {
+  const [, , , , manager, admin] = users;
+  const owner = ({ id, name, email, role }: MockUser) => ({ id, name, email, role });
+
+  return [
+    {
+      id: 'seed-view-1',
+      name: 'Critical open unassigned',
+      query: 'assignee=none&severity=CRITICAL&status=OPEN',
+      layout: 'list',
+      shared: true,
+      owner: owner(manager),
+      createdAt: daysAgo(20),
+    },
+    {
+      id: 'seed-view-2',
+      name: 'Awaiting review',
+      query: 'sort=severity%2Cdesc&status=UNDER_REVIEW',
+      layout: 'compact',
+      shared: false,
+      owner: owner(manager),
+      createdAt: daysAgo(12),
+    },
+    {
+      id: 'seed-view-3',
+      name: 'Resolved without RCA',
+      query: 'hasRca=false&size=25&status=RESOLVED',
+      layout: 'compact',
+      shared: true,
+      owner: owner(admin),
+      createdAt: daysAgo(8),
+    },
+  ];
+};
+
+const buildSavedViewPreferences = (users: MockUser[]): MockSavedViewPreferences[] => [
+  { email: users[4].email, pinnedIds: ['seed-view-1', 'seed-view-2'] },
+  { email: users[5].email, pinnedIds: ['seed-view-3', 'seed-view-1'] },
+];
+
+// Built on demand so relative dates are computed when the database is first created
+export const buildSeedData = (): MockSeedData => {
+  const users = buildUsers();
+  const incidents = buildIncidents(users);
+  const trash = buildTrash(users);
+
+  return {
+    users,
+    incidents,
+    trash,
+    incidentHistory: buildHistory(incidents, trash, users),
+    comments: buildComments(incidents, users),
+    invites: [
+      {
+        token: 'demo-invite',
+        email: 'new.hire@safesnap.dev',
+        role: 'WORKER',
+        expiresAt: daysFromNow(7),
+        invitedByName: 'Jordan Blake',
+      },
+      {
+        token: 'expired-invite',
+        email: 'late.joiner@safesnap.dev',
+        role: 'SUPERVISOR',
+        expiresAt: daysAgo(2),
+        invitedByName: 'Jordan Blake',
+      },
+    ],
+    rcaSuggestions: buildRcaSuggestions(incidents),
+    savedViews: buildSavedViews(users),
+    savedViewPreferences: buildSavedViewPreferences(users),
+  };
+};
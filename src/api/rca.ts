@@ -1,4 +1,11 @@
 import { apiClient } from './client';
+import {
+  imageAnalysisResponseSchema,
+  imageAnalysisStatusSchema,
+  parseResponse,
+  rcaAiSuggestionsSchema,
+  rcaReportSchema,
+} from './schemas';
 import {
   RcaAiSuggestions,
   RcaReport,
@@ -11,39 +18,39 @@ import {
 export const rcaApi = {
   // Get AI-generated RCA suggestions (managers only)
   getRcaSuggestions: async (incidentId: string): Promise<RcaAiSuggestions> => {
-    const response = await apiClient.get<RcaAiSuggestions>(`/incidents/${incidentId}/rca/suggestions`);
-    return response.data;
+    const response = await apiClient.get(`/incidents/${incidentId}/rca/suggestions`);
+    return parseResponse(rcaAiSuggestionsSchema, response);
   },
 
   // Mark RCA suggestions as reviewed (managers only)
   reviewRcaSuggestions: async (incidentId: string): Promise<RcaAiSuggestions> => {
-    const response = await apiClient.post<RcaAiSuggestions>(`/incidents/${incidentId}/rca/suggestions/review`);
-    return response.data;
+    const response = await apiClient.post(`/incidents/${incidentId}/rca/suggestions/review`);
+    return parseResponse(rcaAiSuggestionsSchema, response);
   },
 
   // Approve RCA suggestions (managers only)
   approveRcaSuggestions: async (incidentId: string): Promise<RcaAiSuggestions> => {
-    const response = await apiClient.post<RcaAiSuggestions>(`/incidents/${incidentId}/rca/suggestions/approve`);
-    return response.data;
+    const response = await apiClient.post(`/incidents/${incidentId}/rca/suggestions/approve`);
+    return parseResponse(rcaAiSuggestionsSchema, response);
   },
 
   // Create final RCA report (managers only)
   createRcaReport: async (incidentId: string, data: CreateRcaReportRequest): Promise<RcaReport> => {
-    const response = await apiClient.post<RcaReport>(`/incidents/${incidentId}/rca/approve`, data);
-    return response.data;
+    const response = await apiClient.post(`/incidents/${incidentId}/rca/approve`, data);
+    return parseResponse(rcaReportSchema, response);
   },
 };
 
 export const imageAnalysisApi = {
   // Analyze image for safety hazards
   analyzeImage: async (data: ImageAnalysisRequest): Promise<ImageAnalysisResponse> => {
-    const response = await apiClient.post<ImageAnalysisResponse>('/image-analysis/analyze', data);
-    return response.data;
+    const response = await apiClient.post('/image-analysis/analyze', data);
+    return parseResponse(imageAnalysisResponseSchema, response);
   },
 
   // Check Google Vision API health
   getAnalysisStatus: async (): Promise<ImageAnalysisStatus> => {
-    const response = await apiClient.get<ImageAnalysisStatus>('/image-analysis/status');
-    return response.data;
+    const response = await apiClient.get('/image-analysis/status');
+    return parseResponse(imageAnalysisStatusSchema, response);
   },
 };
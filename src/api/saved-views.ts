@@ -0,0 +1,38 @@
+import { apiClient } from './client';
+import { parseResponse, savedViewListSchema, savedViewSchema } from './schemas';
+import {
+  CreateSavedViewRequest,
+  SavedView,
+  SavedViewPreferencesRequest,
+  UpdateSavedViewRequest,
+} from '@/types';
+
+export const savedViewsApi = {
+  // Your own views plus the ones other managers have shared, pinned views first
+  getViews: async (): Promise<SavedView[]> => {
+    const response = await apiClient.get('/saved-views');
+    return parseResponse(savedViewListSchema, response);
+  },
+
+  createView: async (data: CreateSavedViewRequest): Promise<SavedView> => {
+    const response = await apiClient.post('/saved-views', data);
+    return parseResponse(savedViewSchema, response);
+  },
+
+  // Rename, change the filters of or share one of your own views
+  updateView: async (id: string, data: UpdateSavedViewRequest): Promise<SavedView> => {
+    const response = await apiClient.put(`/saved-views/${id}`, data);
+    return parseResponse(savedViewSchema, response);
+  },
+
+  // Pin or make default for yourself; works on shared views too. Setting a default clears the previous one.
+  updatePreferences: async (id: string, data: SavedViewPreferencesRequest): Promise<SavedView> => {
+    const response = await apiClient.put(`/saved-views/${id}/preferences`, data);
+    return parseResponse(savedViewSchema, response);
+  },
+
+  // Delete one of your own views; it disappears for everyone it was shared with
+  deleteView: async (id: string): Promise<void> => {
+    await apiClient.delete(`/saved-views/${id}`);
+  },
+};
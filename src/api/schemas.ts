@@ -0,0 +1,365 @@
+import { AxiosResponse } from 'axios';
+import { z } from 'zod';
+import {
+  Assignee,
+  BackendAuthResponse,
+  ImageAnalysisResponse,
+  ImageAnalysisStatus,
+  IncidentComment,
+  IncidentDetail,
+  IncidentHistoryEntry,
+  IncidentListResponse,
+  IncidentSeverity,
+  IncidentStatus,
+  InviteValidation,
+  MetricsSummary,
+  PaginatedResponse,
+  PresignedDownloadResponse,
+  PresignedUploadResponse,
+  RcaAiSuggestions,
+  RcaReport,
+  RcaStatistics,
+  ResetTokenValidation,
+  SavedView,
+  TrashedIncident,
+  TrashedIncidentListResponse,
+  User,
+  UserAccount,
+  UserInvite,
+  UserListResponse,
+} from '@/types';
+import { ApiContractError } from './errors';
+
+// Schemas for every payload src/api hands to the UI. Each one is typed against src/types.ts,
+// so a field added to a type but not here is dropped at the boundary - add both together.
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// Most issues worth logging for one response; a broken list would otherwise repeat per item
+const MAX_LOGGED_ISSUES = 10;
+
+// Spring serializes missing optional fields as null, the frontend types use undefined
+const optional = <T extends z.ZodTypeAny>(schema: T) => schema.nullish().transform((value) => value ?? undefined);
+
+const idSchema = z.union([z.string(), z.number()]).transform(String);
+
+const stringListSchema = z
+  .array(z.string())
+  .nullish()
+  .transform((values) => values ?? []);
+
+// Upload status text ("✅ uploaded", "Error: ...") has ended up in imageUrls before; keep real URLs only
+const isMediaUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !value.trim() || /\s/.test(value.trim())) return false;
+  try {
+    return ['http:', 'https:', 'blob:'].includes(new URL(value.trim()).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const mediaUrlsSchema = z
+  .array(z.unknown())
+  .nullish()
+  .transform((values) => (values ?? []).filter(isMediaUrl).map((url) => url.trim()));
+
+export const userRoleSchema = z.enum(['WORKER', 'SUPERVISOR', 'SAFETY_OFFICER', 'MANAGER', 'ADMIN']);
+
+export const incidentStatusSchema = z.enum(['OPEN', 'IN_PROGRESS', 'UNDER_REVIEW', 'RESOLVED', 'CLOSED', 'CANCELLED']);
+
+export const incidentSeveritySchema = z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']);
+
+const tokenStatusSchema = z.enum(['VALID', 'EXPIRED', 'INVALID']);
+
+// Counts keyed by enum value, with missing keys filled in as zero
+const countsSchema = <K extends string>(keys: readonly K[]) =>
+  z
+    .record(z.number())
+    .nullish()
+    .transform((counts) => Object.fromEntries(keys.map((key) => [key, counts?.[key] ?? 0])) as Record<K, number>);
+
+const pageSchema = <T>(item: Schema<T>): Schema<PaginatedResponse<T>> =>
+  z.object({
+    content: z.array(item),
+    pageable: z
+      .object({
+        pageNumber: z.number(),
+        pageSize: z.number(),
+        sort: z
+          .object({ sorted: z.boolean().default(false), ascending: z.boolean().default(false) })
+          .default({}),
+      })
+      .default({ pageNumber: 0, pageSize: 0 }),
+    totalElements: z.number(),
+    totalPages: z.number(),
+    first: z.boolean(),
+    last: z.boolean(),
+    numberOfElements: z.number(),
+  });
+
+// Auth
+export const backendAuthResponseSchema: Schema<BackendAuthResponse> = z.object({
+  token: z.string().min(1),
+  refreshToken: optional(z.string()),
+  role: userRoleSchema,
+});
+
+export const inviteValidationSchema: Schema<InviteValidation> = z.object({
+  status: tokenStatusSchema,
+  email: optional(z.string()),
+  role: optional(userRoleSchema),
+  organizationName: optional(z.string()),
+  expiresAt: optional(z.string()),
+});
+
+export const resetTokenValidationSchema: Schema<ResetTokenValidation> = z.object({
+  status: tokenStatusSchema,
+  email: optional(z.string()),
+  expiresAt: optional(z.string()),
+});
+
+// Users. The id is optional to match User: the session token doesn't carry one
+export const userSchema: Schema<User> = z.object({
+  id: optional(z.number()),
+  name: z.string(),
+  email: z.string(),
+  role: userRoleSchema,
+});
+
+export const userAccountSchema: Schema<UserAccount> = z.object({
+  id: z.number(),
+  name: z.string(),
+  email: z.string(),
+  role: userRoleSchema,
+  status: z.enum(['ACTIVE', 'INVITED', 'DEACTIVATED']),
+  createdAt: z.string(),
+  lastLoginAt: optional(z.string()),
+});
+
+export const userListSchema: Schema<UserListResponse> = pageSchema(userAccountSchema);
+
+export const userInviteSchema: Schema<UserInvite> = z.object({
+  id: idSchema,
+  email: z.string(),
+  role: userRoleSchema,
+  expiresAt: z.string(),
+  invitedByName: optional(z.string()),
+});
+
+export const assigneeSchema: Schema<Assignee> = z.object({
+  id: z.number(),
+  name: z.string(),
+  email: z.string(),
+  role: userRoleSchema,
+  openIncidentCount: z.number(),
+});
+
+export const assigneeListSchema: Schema<Assignee[]> = z.array(assigneeSchema);
+
+// RCA
+export const rcaReportSchema: Schema<RcaReport> = z.object({
+  id: z.number(),
+  fiveWhys: z.string(),
+  correctiveAction: z.string(),
+  preventiveAction: z.string(),
+  createdAt: z.string(),
+  manager: userSchema,
+});
+
+export const rcaAiSuggestionsSchema: Schema<RcaAiSuggestions> = z.object({
+  id: optional(idSchema),
+  incidentId: idSchema,
+  incidentTitle: z.string(),
+  suggestedFiveWhys: z.string(),
+  suggestedCorrectiveAction: z.string(),
+  suggestedPreventiveAction: z.string(),
+  incidentCategory: z.string(),
+  status: z.enum(['GENERATED', 'REVIEWED', 'APPROVED']),
+  generatedAt: z.string(),
+  reviewedAt: optional(z.string()),
+  reviewedByName: optional(z.string()),
+  errorMessage: optional(z.string()),
+});
+
+// Incidents
+const incidentObjectSchema = z.object({
+  id: idSchema,
+  title: z.string(),
+  description: z.string(),
+  severity: incidentSeveritySchema,
+  status: incidentStatusSchema,
+  latitude: optional(z.number()),
+  longitude: optional(z.number()),
+  locationDescription: optional(z.string()),
+  imageUrls: mediaUrlsSchema,
+  audioUrls: mediaUrlsSchema,
+  reportedBy: z.string(),
+  reportedByEmail: z.string(),
+  assignedTo: optional(z.string()),
+  assignedToEmail: optional(z.string()),
+  reportedAt: z.string(),
+  updatedAt: optional(z.string()),
+  updatedBy: optional(z.string()),
+  rcaReport: optional(rcaReportSchema),
+  rcaAiSuggestions: optional(rcaAiSuggestionsSchema),
+  aiSuggestions: stringListSchema,
+  imageTags: stringListSchema,
+  transcriptions: stringListSchema,
+});
+
+export const incidentSchema: Schema<IncidentDetail> = incidentObjectSchema;
+
+export const incidentListSchema: Schema<IncidentListResponse> = pageSchema(incidentSchema);
+
+export const trashedIncidentSchema: Schema<TrashedIncident> = incidentObjectSchema.extend({
+  deletedAt: z.string(),
+  deletedBy: z.string(),
+  deletionReason: z.string(),
+  purgeAt: z.string(),
+});
+
+export const trashedIncidentListSchema: Schema<TrashedIncidentListResponse> = pageSchema(trashedIncidentSchema);
+
+export const incidentHistorySchema: Schema<IncidentHistoryEntry[]> = z.array(
+  z.object({
+    id: idSchema,
+    incidentId: idSchema,
+    action: z.enum([
+      'CREATED',
+      'UPDATED',
+      'STATUS_CHANGED',
+      'ASSIGNED',
+      'UNASSIGNED',
+      'MEDIA_UPDATED',
+      'RCA_GENERATED',
+      'RCA_REVIEWED',
+      'RCA_APPROVED',
+      'RCA_REPORT_CREATED',
+      'DELETED',
+      'RESTORED',
+    ]),
+    actorName: z.string(),
+    actorEmail: z.string(),
+    occurredAt: z.string(),
+    changes: z
+      .array(z.object({ field: z.string(), oldValue: optional(z.string()), newValue: optional(z.string()) }))
+      .nullish()
+      .transform((changes) => changes ?? []),
+    reason: optional(z.string()),
+  })
+);
+
+// Comments
+export const incidentCommentSchema: Schema<IncidentComment> = z.object({
+  id: idSchema,
+  incidentId: idSchema,
+  body: z.string(),
+  author: userSchema,
+  internal: z.boolean().default(false),
+  mentions: z
+    .array(z.object({ name: z.string(), email: z.string() }))
+    .nullish()
+    .transform((mentions) => mentions ?? []),
+  attachmentUrls: mediaUrlsSchema,
+  createdAt: z.string(),
+  updatedAt: optional(z.string()),
+});
+
+export const incidentCommentListSchema: Schema<IncidentComment[]> = z.array(incidentCommentSchema);
+
+export const userListItemsSchema: Schema<User[]> = z.array(userSchema);
+
+// Saved views
+export const savedViewSchema: Schema<SavedView> = z.object({
+  id: idSchema,
+  name: z.string(),
+  query: z.string().nullish().transform((query) => (query ?? '').replace(/^\?/, '')),
+  layout: z.enum(['list', 'compact', 'board']).catch('list'),
+  shared: z.boolean().default(false),
+  owner: userSchema,
+  pinned: z.boolean().default(false),
+  isDefault: z.boolean().default(false),
+  createdAt: z.string(),
+  updatedAt: optional(z.string()),
+});
+
+export const savedViewListSchema: Schema<SavedView[]> = z.array(savedViewSchema);
+
+// Metrics
+export const metricsSummarySchema: Schema<MetricsSummary> = z.object({
+  totalIncidents: z.number(),
+  openIncidents: z.number(),
+  resolvedIncidents: z.number(),
+  totalUsers: z.number(),
+  activeWorkers: z.number(),
+  totalManagers: z.number(),
+  averageResolutionTimeHours: z.number(),
+  incidentsByStatus: countsSchema<IncidentStatus>(incidentStatusSchema.options),
+  incidentsBySeverity: countsSchema<IncidentSeverity>(incidentSeveritySchema.options),
+});
+
+export const rcaStatisticsSchema: Schema<RcaStatistics> = z.object({
+  totalSuggestions: z.number(),
+  generatedCount: z.number(),
+  reviewedCount: z.number(),
+  approvedCount: z.number(),
+  modifiedCount: z.number(),
+  failedCount: z.number(),
+  successRate: z.number(),
+  averageProcessingTimeMs: z.number(),
+  averageTokenUsage: z.number(),
+});
+
+// Image analysis
+export const imageAnalysisResponseSchema: Schema<ImageAnalysisResponse> = z.object({
+  imageUrl: z.string(),
+  tags: stringListSchema,
+  confidenceScore: z.number(),
+  processed: z.boolean(),
+  processedAt: z.string(),
+});
+
+export const imageAnalysisStatusSchema: Schema<ImageAnalysisStatus> = z.object({
+  status: z.string(),
+  apiEnabled: z.boolean(),
+  lastSuccessfulCall: z.string(),
+  errorCount: z.number(),
+});
+
+// Storage. The backend names the stored object's URL s3Url and gives the expiry in minutes.
+export const presignedUploadSchema: Schema<PresignedUploadResponse> = z
+  .object({
+    uploadUrl: z.string().min(1),
+    s3Url: z.string().min(1),
+    expiresInMinutes: z.number().default(60),
+  })
+  .transform(({ uploadUrl, s3Url, expiresInMinutes }) => ({
+    uploadUrl,
+    fileUrl: s3Url,
+    expiresInSeconds: expiresInMinutes * 60,
+  }));
+
+// Download URLs don't come with an expiry; presigned GETs last an hour on the backend
+export const presignedDownloadSchema: Schema<PresignedDownloadResponse> = z
+  .object({ downloadUrl: z.string().min(1) })
+  .transform(({ downloadUrl }) => ({ downloadUrl, expiresInSeconds: 3600 }));
+
+export const fileExistsSchema: Schema<boolean> = z.object({ exists: z.boolean() }).transform(({ exists }) => exists);
+
+// Validate and normalize a response body. Contract drift is logged once, with every
+// mismatching field, and surfaces to the caller as an ApiContractError.
+export const parseResponse = <T>(schema: Schema<T>, response: AxiosResponse): T => {
+  const result = schema.safeParse(response.data);
+  if (result.success) {
+    return result.data;
+  }
+
+  const endpoint = `${(response.config.method || 'get').toUpperCase()} ${response.config.url}`;
+  const issues = result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+  console.error(
+    `[api contract] ${endpoint} returned an unexpected payload (${issues.length} issues):\n` +
+      issues.slice(0, MAX_LOGGED_ISSUES).join('\n'),
+    response.data
+  );
+  throw new ApiContractError(endpoint, issues);
+};
@@ -1,9 +1,8 @@
 import { apiClient } from './client';
+import { fileExistsSchema, parseResponse, presignedDownloadSchema, presignedUploadSchema } from './schemas';
+import { isMockApiEnabled } from '@/lib/config';
 import { PresignedUploadResponse, PresignedDownloadResponse } from '@/types';
 
-// Backend S3 is ready - use real endpoints
-const USE_MOCK_S3 = false;
-
 // Helper function to extract file extension from filename
 const getFileExtension = (fileName: string): string => {
   return fileName.split('.').pop()?.toLowerCase() || '';
@@ -14,21 +13,20 @@ const getFileType = (mimeType: string): 'IMAGE' | 'AUDIO' => {
   return mimeType.startsWith('image/') ? 'IMAGE' : 'AUDIO';
 };
 
+// Image proxy URLs come back absolute ("https://backend.com/api/s3/image-proxy/filename.jpg") but
+// have to be requested through apiClient so the auth header is sent. apiClient's base URL already
+// ends in /api, so only the rest of the path is kept ("/s3/image-proxy/filename.jpg").
+const toProxyRequestPath = (imageUrl: string): string => {
+  if (!imageUrl.startsWith('http://') && !imageUrl.startsWith('https://')) {
+    return imageUrl;
+  }
+  const path = new URL(imageUrl).pathname;
+  return path.startsWith('/api/') ? path.substring(4) : path;
+};
+
 export const storageApi = {
   // Get pre-signed URL for file upload
   getUploadUrl: async (fileName: string, fileType: string): Promise<PresignedUploadResponse> => {
-    if (USE_MOCK_S3) {
-      // Mock response - simulate S3 presigned URL
-      const mockFileUrl = `https://safesnaptest.s3.amazonaws.com/incidents/${fileType.startsWith('image') ? 'images' : 'audio'}/user_1_${Date.now()}_${fileName}`;
-      
-      return {
-        uploadUrl: `https://safesnaptest.s3.amazonaws.com/presigned-upload/${Date.now()}`,
-        fileUrl: mockFileUrl,
-        expiresInSeconds: 3600
-      };
-    }
-
-    // Real backend API call
     const fileExtension = getFileExtension(fileName);
     const backendFileType = getFileType(fileType);
     
@@ -37,43 +35,30 @@ export const storageApi = {
       fileExtension: fileExtension
     });
     
-    // Transform backend response to frontend format
-    const result = {
-      uploadUrl: response.data.uploadUrl,
-      fileUrl: response.data.s3Url || response.data.fileUrl || response.data.downloadUrl, // Try multiple field names
-      expiresInSeconds: response.data.expiresInMinutes * 60 // Convert minutes to seconds
-    };
-    
-    return result;
+    return parseResponse(presignedUploadSchema, response);
   },
 
   // Get pre-signed URL for file download
   getDownloadUrl: async (fileUrl: string): Promise<PresignedDownloadResponse> => {
-    if (USE_MOCK_S3) {
-      return {
-        downloadUrl: fileUrl,
-        expiresInSeconds: 3600
-      };
-    }
-
     const response = await apiClient.post('/s3/download-url', {
       s3Url: fileUrl
     });
     
-    return {
-      downloadUrl: response.data.downloadUrl,
-      expiresInSeconds: 3600 // Backend doesn't return expiry for download, assume 1 hour
-    };
+    return parseResponse(presignedDownloadSchema, response);
   },
 
   // Upload file directly to S3
   uploadFile: async (uploadUrl: string, file: File): Promise<void> => {
-    if (USE_MOCK_S3) {
-      // Simulate upload with delay
-      await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 1000));
+    // The mock backend's upload URLs point back at itself, so send them through apiClient
+    if (isMockApiEnabled) {
+      await apiClient.put(uploadUrl, file, {
+        headers: {
+          'Content-Type': file.type,
+        },
+      });
       return;
     }
-    
+
     const response = await fetch(uploadUrl, {
       method: 'PUT',
       body: file,
@@ -87,17 +72,21 @@ export const storageApi = {
     }
   },
 
+  // Fetch an incident photo through the authenticated image proxy
+  getImage: async (imageUrl: string): Promise<Blob> => {
+    const response = await apiClient.get(toProxyRequestPath(imageUrl), {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
   // Check if file exists (using the new backend endpoint)
   fileExists: async (fileUrl: string): Promise<boolean> => {
-    if (USE_MOCK_S3) {
-      return true;
-    }
-
     try {
       const response = await apiClient.get('/s3/file-exists', {
         params: { s3Url: fileUrl }
       });
-      return response.data.exists;
+      return parseResponse(fileExistsSchema, response);
     } catch (error) {
       return false;
     }
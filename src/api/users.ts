@@ -0,0 +1,58 @@
+import { apiClient } from './client';
+import { assigneeListSchema, parseResponse, userAccountSchema, userInviteSchema, userListSchema } from './schemas';
+import {
+  Assignee,
+  InviteUserRequest,
+  UserAccount,
+  UserInvite,
+  UserListResponse,
+  UserQueryParams,
+  UserRole,
+} from '@/types';
+
+export const usersApi = {
+  // List user accounts (admins only)
+  getUsers: async (params?: UserQueryParams): Promise<UserListResponse> => {
+    const response = await apiClient.get('/admin/users', { params });
+    return parseResponse(userListSchema, response);
+  },
+
+  // Email an invitation to join with the given role (admins only)
+  inviteUser: async (data: InviteUserRequest): Promise<UserInvite> => {
+    const response = await apiClient.post('/admin/users/invite', data);
+    return parseResponse(userInviteSchema, response);
+  },
+
+  // Change a user's role (admins only)
+  updateRole: async (id: number, role: UserRole): Promise<UserAccount> => {
+    const response = await apiClient.patch(`/admin/users/${id}/role`, null, {
+      params: { role },
+    });
+    return parseResponse(userAccountSchema, response);
+  },
+
+  // Block sign-in for an account without deleting its incidents (admins only)
+  deactivateUser: async (id: number): Promise<UserAccount> => {
+    const response = await apiClient.post(`/admin/users/${id}/deactivate`);
+    return parseResponse(userAccountSchema, response);
+  },
+
+  // Restore sign-in for a deactivated account (admins only)
+  reactivateUser: async (id: number): Promise<UserAccount> => {
+    const response = await apiClient.post(`/admin/users/${id}/reactivate`);
+    return parseResponse(userAccountSchema, response);
+  },
+
+  // Invalidate the current password and email the user a reset link (admins only)
+  forcePasswordReset: async (id: number): Promise<void> => {
+    await apiClient.post(`/admin/users/${id}/force-password-reset`);
+  },
+
+  // Team members incidents can be assigned to, with their open incident counts (incident.assign)
+  getAssignees: async (search?: string): Promise<Assignee[]> => {
+    const response = await apiClient.get('/users/assignees', {
+      params: { search: search || undefined },
+    });
+    return parseResponse(assigneeListSchema, response);
+  },
+};
@@ -0,0 +1,233 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { incidentsApi } from '@/api/incidents';
+import { usersApi } from '@/api/users';
+import { ROLE_LABELS } from '@/lib/permissions';
+import { IncidentListItem } from '@/types';
+import { Input } from '@/components/ui/input';
+import { Check, ChevronsUpDown, Loader2, UserMinus, UserPlus } from 'lucide-react';
+
+interface AssigneePickerProps {
+  incident: Pick<IncidentListItem, 'id' | 'assignedTo' | 'assignedToEmail'>;
+  className?: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const workloadColor = (count: number) => {
+  if (count === 0) return 'bg-green-100 text-green-800';
+  if (count < 5) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+};
+
+// Combobox for (re)assigning an incident. Searches team members and shows how many
+// open incidents each already has, so work can go to whoever has capacity.
+const AssigneePicker: React.FC<AssigneePickerProps> = ({ incident, className = '' }) => {
+  const queryClient = useQueryClient();
+  const listboxId = useId();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [search]);
+
+  // Close when clicking anywhere outside the picker
+  useEffect(() => {
+    if (!open) return;
+
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [open]);
+
+  const { data: assignees = [], isLoading, error } = useQuery({
+    queryKey: ['assignees', debouncedSearch],
+    queryFn: () => usersApi.getAssignees(debouncedSearch),
+    enabled: open,
+    staleTime: 30 * 1000,
+  });
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [debouncedSearch, assignees.length]);
+
+  const onAssignmentChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ['incident', incident.id] });
+    queryClient.invalidateQueries({ queryKey: ['incidents'] });
+    queryClient.invalidateQueries({ queryKey: ['assignees'] });
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: (email: string) => incidentsApi.assignIncident(incident.id, email),
+    onSuccess: onAssignmentChanged,
+  });
+
+  const unassignMutation = useMutation({
+    mutationFn: () => incidentsApi.unassignIncident(incident.id),
+    onSuccess: onAssignmentChanged,
+  });
+
+  const isSaving = assignMutation.isPending || unassignMutation.isPending;
+  const mutationError = assignMutation.error || unassignMutation.error;
+
+  // The unassign entry sits first in the list when someone is assigned
+  const options = [
+    ...(incident.assignedToEmail ? [null] : []),
+    ...assignees,
+  ];
+
+  const selectOption = (index: number) => {
+    const option = options[index];
+    if (option === undefined) return;
+
+    if (option === null) {
+      unassignMutation.mutate();
+    } else if (option.email !== incident.assignedToEmail) {
+      assignMutation.mutate(option.email);
+    }
+    setOpen(false);
+    setSearch('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((index) => Math.min(index + 1, options.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      selectOption(activeIndex);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <button
+        type="button"
+        role="combobox"
+        aria-expanded={open}
+        aria-controls={listboxId}
+        aria-haspopup="listbox"
+        disabled={isSaving}
+        onClick={() => setOpen((value) => !value)}
+        className="w-full flex items-center justify-between px-3 py-2 border rounded-md text-sm bg-white hover:bg-gray-50 disabled:opacity-50"
+      >
+        <span className="flex items-center truncate">
+          {isSaving ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin text-gray-500" />
+          ) : (
+            <UserPlus className="h-4 w-4 mr-2 text-gray-500" />
+          )}
+          {incident.assignedTo ? (
+            <span className="truncate">{incident.assignedTo}</span>
+          ) : (
+            <span className="text-gray-500">Unassigned</span>
+          )}
+        </span>
+        <ChevronsUpDown className="h-4 w-4 ml-2 text-gray-400 flex-shrink-0" />
+      </button>
+
+      {mutationError && (
+        <p className="text-xs text-red-600 mt-1">{mutationError.message}</p>
+      )}
+
+      {open && (
+        <div className="absolute z-20 mt-1 w-full min-w-[16rem] bg-white border rounded-md shadow-lg">
+          <div className="p-2 border-b">
+            <Input
+              autoFocus
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Search team members..."
+              aria-label="Search team members"
+              aria-activedescendant={options.length > 0 ? `${listboxId}-${activeIndex}` : undefined}
+              className="h-8"
+            />
+          </div>
+
+          <ul id={listboxId} role="listbox" className="max-h-64 overflow-y-auto py-1">
+            {options.map((option, index) => {
+              const optionId = `${listboxId}-${index}`;
+              const isActive = index === activeIndex;
+
+              if (option === null) {
+                return (
+                  <li
+                    key="unassign"
+                    id={optionId}
+                    role="option"
+                    aria-selected={false}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onClick={() => selectOption(index)}
+                    className={`flex items-center px-3 py-2 text-sm text-red-600 cursor-pointer ${isActive ? 'bg-gray-100' : ''}`}
+                  >
+                    <UserMinus className="h-4 w-4 mr-2" />
+                    Unassign
+                  </li>
+                );
+              }
+
+              const isSelected = option.email === incident.assignedToEmail;
+              return (
+                <li
+                  key={option.id}
+                  id={optionId}
+                  role="option"
+                  aria-selected={isSelected}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => selectOption(index)}
+                  className={`flex items-center justify-between px-3 py-2 text-sm cursor-pointer ${isActive ? 'bg-gray-100' : ''}`}
+                >
+                  <span className="flex items-center min-w-0">
+                    <Check className={`h-4 w-4 mr-2 flex-shrink-0 ${isSelected ? 'text-primary' : 'invisible'}`} />
+                    <span className="min-w-0">
+                      <span className="block truncate font-medium">{option.name}</span>
+                      <span className="block truncate text-xs text-gray-500">
+                        {ROLE_LABELS[option.role]} · {option.email}
+                      </span>
+                    </span>
+                  </span>
+                  <span
+                    className={`ml-2 flex-shrink-0 rounded-full px-2 py-0.5 text-xs font-medium ${workloadColor(option.openIncidentCount)}`}
+                    title="Open incidents currently assigned"
+                  >
+                    {option.openIncidentCount} open
+                  </span>
+                </li>
+              );
+            })}
+
+            {isLoading && (
+              <li className="flex items-center px-3 py-2 text-sm text-gray-500">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Loading team members...
+              </li>
+            )}
+            {error && (
+              <li className="px-3 py-2 text-sm text-red-600">{error.message}</li>
+            )}
+            {!isLoading && !error && assignees.length === 0 && (
+              <li className="px-3 py-2 text-sm text-gray-500">No team members match "{debouncedSearch}"</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssigneePicker;
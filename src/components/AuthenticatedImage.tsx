@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { apiClient } from '@/api/client';
+import { storageApi } from '@/api/storage';
 
 interface AuthenticatedImageProps extends React.ImgHTMLAttributes<HTMLImageElement> {
   src: string;
@@ -17,27 +17,10 @@ const AuthenticatedImage: React.FC<AuthenticatedImageProps> = ({ src, alt, class
         setLoading(true);
         setError(false);
 
-        // Extract the path from the full URL if needed
-        // If src is like "https://backend.com/api/s3/image-proxy/filename.jpg"
-        // we need to make the request to "/s3/image-proxy/filename.jpg" (without /api since apiClient base URL already includes it)
-        let requestUrl = src;
-        if (src.startsWith('http://') || src.startsWith('https://')) {
-          const urlObj = new URL(src);
-          requestUrl = urlObj.pathname; // This gives us "/api/s3/image-proxy/filename.jpg"
-          
-          // Remove the /api prefix since apiClient base URL already includes it
-          if (requestUrl.startsWith('/api/')) {
-            requestUrl = requestUrl.substring(4); // Remove "/api" to get "/s3/image-proxy/filename.jpg"
-          }
-        }
-
         // Fetch the image with authentication headers
-        const response = await apiClient.get(requestUrl, {
-          responseType: 'blob',
-        });
+        const blob = await storageApi.getImage(src);
 
         // Convert blob to data URL
-        const blob = response.data;
         const reader = new FileReader();
         reader.onloadend = () => {
           setImageSrc(reader.result as string);
@@ -0,0 +1,393 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { incidentsApi } from '@/api/incidents';
+import { rcaApi } from '@/api/rca';
+import { usersApi } from '@/api/users';
+import { usePermission } from '@/hooks/usePermission';
+import { BulkItemResult, BulkSkip, countOutcomes, runBulk } from '@/lib/bulk-actions';
+import { downloadBlob } from '@/lib/csv';
+import { buildIncidentExport, exportFilename, getExportColumns, getSavedExportColumnIds } from '@/lib/incident-export';
+import { NOTE_MIN_LENGTH, STATUS_LABELS, findTransition, validateTransition } from '@/lib/incident-workflow';
+import { IncidentListItem, IncidentStatus } from '@/types';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/components/ui/use-toast';
+import { BarChart3, CheckCircle2, Download, Loader2, MinusCircle, RefreshCw, UserPlus, X, XCircle } from 'lucide-react';
+
+interface BulkActionBarProps {
+  selected: IncidentListItem[];
+  // How many incidents match the current filters, across all pages
+  matchingCount: number;
+  onSelectAllMatching: () => void;
+  isSelectingAll: boolean;
+  onClear: () => void;
+  // Called with the per-incident results once an action has run
+  onFinished: (results: BulkItemResult[]) => void;
+}
+
+type BulkDialog = 'status' | 'assign';
+
+const UNASSIGN = 'unassign';
+
+const statusSchema = z.object({
+  status: z.string().min(1, 'Choose a status'),
+  note: z.string().trim(),
+});
+
+const assignSchema = z.object({
+  assigneeEmail: z.string().min(1, 'Choose who to assign to'),
+});
+
+type StatusFormData = z.infer<typeof statusSchema>;
+type AssignFormData = z.infer<typeof assignSchema>;
+
+const outcomeIcons = {
+  succeeded: <CheckCircle2 className="h-4 w-4 text-green-600 flex-shrink-0" />,
+  failed: <XCircle className="h-4 w-4 text-red-600 flex-shrink-0" />,
+  skipped: <MinusCircle className="h-4 w-4 text-gray-400 flex-shrink-0" />,
+};
+
+// Actions applied to every selected incident on the manager dashboard. Incidents are
+// processed one by one and each gets its own result, so a partial failure is easy to follow up.
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selected,
+  matchingCount,
+  onSelectAllMatching,
+  isSelectingAll,
+  onClear,
+  onFinished,
+}) => {
+  const queryClient = useQueryClient();
+  const canUpdateStatus = usePermission('incident.update_status');
+  const canAssign = usePermission('incident.assign');
+  const canGenerateRca = usePermission('rca.generate');
+  const [dialog, setDialog] = useState<BulkDialog | null>(null);
+  const [running, setRunning] = useState<{ label: string; done: number; total: number } | null>(null);
+  const [results, setResults] = useState<{ label: string; items: BulkItemResult[] } | null>(null);
+
+  const statusForm = useForm<StatusFormData>({
+    resolver: zodResolver(statusSchema),
+    defaultValues: { status: '', note: '' },
+  });
+
+  const assignForm = useForm<AssignFormData>({
+    resolver: zodResolver(assignSchema),
+    defaultValues: { assigneeEmail: '' },
+  });
+
+  const { data: assignees = [], isLoading: assigneesLoading } = useQuery({
+    queryKey: ['assignees', ''],
+    queryFn: () => usersApi.getAssignees(),
+    enabled: dialog === 'assign',
+    staleTime: 30 * 1000,
+  });
+
+  const closeDialog = () => {
+    setDialog(null);
+    statusForm.reset();
+    assignForm.reset();
+  };
+
+  const run = async (label: string, step: (incident: IncidentListItem) => Promise<unknown>) => {
+    const incidents = selected;
+    closeDialog();
+    setResults(null);
+    setRunning({ label, done: 0, total: incidents.length });
+
+    const items = await runBulk(incidents, step, (done) => setRunning({ label, done, total: incidents.length }));
+
+    setRunning(null);
+    setResults({ label, items });
+    queryClient.invalidateQueries({ queryKey: ['incidents'] });
+    queryClient.invalidateQueries({ queryKey: ['incident'] });
+    queryClient.invalidateQueries({ queryKey: ['metrics'] });
+    queryClient.invalidateQueries({ queryKey: ['assignees'] });
+    queryClient.invalidateQueries({ queryKey: ['rca'] });
+
+    const counts = countOutcomes(items);
+    const details = [
+      counts.failed > 0 && `${counts.failed} failed`,
+      counts.skipped > 0 && `${counts.skipped} skipped`,
+    ].filter(Boolean);
+    toast({
+      title: `${label}: ${counts.succeeded} of ${items.length} incidents updated`,
+      description: details.length > 0 ? `${details.join(', ')}. See the results below the list.` : undefined,
+      variant: counts.failed > 0 && counts.succeeded === 0 ? 'destructive' : 'default',
+    });
+    onFinished(items);
+  };
+
+  const targetStatus = statusForm.watch('status') as IncidentStatus | '';
+  const eligibleCount = targetStatus
+    ? selected.filter((incident) => findTransition(incident.status, targetStatus)).length
+    : 0;
+  const needsNote = !!targetStatus && selected.some((incident) => findTransition(incident.status, targetStatus)?.note);
+
+  const handleStatusSubmit = ({ status, note }: StatusFormData) => {
+    const to = status as IncidentStatus;
+    if (needsNote && note.length < NOTE_MIN_LENGTH) {
+      statusForm.setError('note', { message: `Please write at least ${NOTE_MIN_LENGTH} characters` });
+      return;
+    }
+
+    run(`Move to ${STATUS_LABELS[to]}`, (incident) => {
+      if (incident.status === to) {
+        throw new BulkSkip(`Already ${STATUS_LABELS[to].toLowerCase()}`);
+      }
+      const errors = validateTransition(incident, to, note);
+      if (errors) {
+        throw new Error(Object.values(errors)[0]);
+      }
+      return incidentsApi.updateStatus(incident.id, to, note || undefined);
+    });
+  };
+
+  const handleAssignSubmit = ({ assigneeEmail }: AssignFormData) => {
+    if (assigneeEmail === UNASSIGN) {
+      run('Unassign', (incident) => {
+        if (!incident.assignedToEmail) {
+          throw new BulkSkip('Not assigned');
+        }
+        return incidentsApi.unassignIncident(incident.id);
+      });
+      return;
+    }
+
+    const assignee = assignees.find((item) => item.email === assigneeEmail);
+    run(`Assign to ${assignee?.name ?? assigneeEmail}`, (incident) => {
+      if (incident.assignedToEmail === assigneeEmail) {
+        throw new BulkSkip('Already assigned to them');
+      }
+      return incidentsApi.assignIncident(incident.id, assigneeEmail);
+    });
+  };
+
+  const handleGenerateRca = () => {
+    run('Generate RCA', (incident) => {
+      if (incident.rcaReport || incident.rcaAiSuggestions) {
+        throw new BulkSkip('RCA already generated');
+      }
+      return rcaApi.getRcaSuggestions(incident.id);
+    });
+  };
+
+  // Uses the columns picked for the last full export
+  const handleExport = async () => {
+    try {
+      const filename = exportFilename('csv');
+      const blob = await buildIncidentExport(selected, getExportColumns(getSavedExportColumnIds()), 'csv');
+      downloadBlob(blob, filename);
+      toast({
+        title: `Exported ${selected.length} incident${selected.length === 1 ? '' : 's'}`,
+        description: `Saved as ${filename}`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Could not export the selected incidents',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (selected.length === 0 && !running && !results) {
+    return null;
+  }
+
+  const isBusy = !!running || isSelectingAll;
+  const failedFirst = results
+    ? [...results.items].sort((a, b) => Number(b.outcome === 'failed') - Number(a.outcome === 'failed'))
+    : [];
+
+  return (
+    <div className="space-y-3">
+      {(selected.length > 0 || running) && (
+        <div className="sticky top-4 z-10 rounded-lg border bg-white p-4 shadow-md">
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              {running ? (
+                <span className="flex items-center font-medium text-gray-900">
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  {running.label}: {running.done} of {running.total} done...
+                </span>
+              ) : (
+                <>
+                  <span className="font-medium text-gray-900">
+                    {selected.length} selected
+                  </span>
+                  {selected.length < matchingCount && (
+                    <Button variant="link" size="sm" className="h-auto p-0" onClick={onSelectAllMatching} disabled={isBusy}>
+                      {isSelectingAll ? 'Selecting...' : `Select all ${matchingCount} matching`}
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={onClear} disabled={isBusy}>
+                    <X className="h-4 w-4 mr-1" />
+                    Clear
+                  </Button>
+                </>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {canUpdateStatus && (
+                <Button variant="outline" size="sm" onClick={() => setDialog('status')} disabled={isBusy}>
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  Change status
+                </Button>
+              )}
+              {canAssign && (
+                <Button variant="outline" size="sm" onClick={() => setDialog('assign')} disabled={isBusy}>
+                  <UserPlus className="h-4 w-4 mr-1" />
+                  Assign
+                </Button>
+              )}
+              {canGenerateRca && (
+                <Button variant="outline" size="sm" onClick={handleGenerateRca} disabled={isBusy}>
+                  <BarChart3 className="h-4 w-4 mr-1" />
+                  Generate RCA
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={handleExport} disabled={isBusy}>
+                <Download className="h-4 w-4 mr-1" />
+                Export CSV
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {results && (
+        <div className="rounded-lg border bg-white p-4">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-900">Results: {results.label}</h3>
+            <Button variant="ghost" size="sm" onClick={() => setResults(null)}>
+              Dismiss
+            </Button>
+          </div>
+          <ul className="max-h-64 overflow-y-auto divide-y text-sm">
+            {failedFirst.map((item) => (
+              <li key={item.id} className="flex items-center gap-2 py-2">
+                {outcomeIcons[item.outcome]}
+                <Link to={`/manager/incidents/${item.id}`} className="font-medium text-gray-900 hover:underline truncate">
+                  {item.title}
+                </Link>
+                {item.message && <span className="text-gray-500 truncate">— {item.message}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <AlertDialog open={dialog === 'status'} onOpenChange={(open) => !open && closeDialog()}>
+        <AlertDialogContent>
+          <form onSubmit={statusForm.handleSubmit(handleStatusSubmit)} className="space-y-4">
+            <AlertDialogHeader>
+              <AlertDialogTitle>Change status of {selected.length} incidents</AlertDialogTitle>
+              <AlertDialogDescription>
+                Incidents whose workflow doesn't allow the move are left unchanged and listed in the results.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="bulk-status">New status</Label>
+              <select
+                id="bulk-status"
+                className="w-full px-3 py-2 border rounded-md"
+                {...statusForm.register('status')}
+              >
+                <option value="">Choose a status</option>
+                {Object.entries(STATUS_LABELS).map(([status, label]) => (
+                  <option key={status} value={status}>{label}</option>
+                ))}
+              </select>
+              {statusForm.formState.errors.status && (
+                <p className="text-sm text-red-600">{statusForm.formState.errors.status.message}</p>
+              )}
+              {targetStatus && (
+                <p className="text-xs text-gray-500">
+                  {eligibleCount} of {selected.length} selected incidents can move to {STATUS_LABELS[targetStatus]}.
+                </p>
+              )}
+            </div>
+
+            {needsNote && (
+              <div className="space-y-2">
+                <Label htmlFor="bulk-status-note">Note</Label>
+                <Textarea
+                  id="bulk-status-note"
+                  placeholder="Saved with each status change and shown in the incident's activity"
+                  {...statusForm.register('note')}
+                />
+                {statusForm.formState.errors.note && (
+                  <p className="text-sm text-red-600">{statusForm.formState.errors.note.message}</p>
+                )}
+              </div>
+            )}
+
+            <AlertDialogFooter>
+              <AlertDialogCancel type="button">Cancel</AlertDialogCancel>
+              <Button type="submit" disabled={!targetStatus || eligibleCount === 0}>
+                Update {eligibleCount} incidents
+              </Button>
+            </AlertDialogFooter>
+          </form>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={dialog === 'assign'} onOpenChange={(open) => !open && closeDialog()}>
+        <AlertDialogContent>
+          <form onSubmit={assignForm.handleSubmit(handleAssignSubmit)} className="space-y-4">
+            <AlertDialogHeader>
+              <AlertDialogTitle>Assign {selected.length} incidents</AlertDialogTitle>
+              <AlertDialogDescription>
+                Open incident counts show each team member's current workload.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="bulk-assignee">Assignee</Label>
+              <select
+                id="bulk-assignee"
+                className="w-full px-3 py-2 border rounded-md"
+                disabled={assigneesLoading}
+                {...assignForm.register('assigneeEmail')}
+              >
+                <option value="">{assigneesLoading ? 'Loading team...' : 'Choose a team member'}</option>
+                <option value={UNASSIGN}>Unassign</option>
+                {assignees.map((assignee) => (
+                  <option key={assignee.email} value={assignee.email}>
+                    {assignee.name} ({assignee.openIncidentCount} open)
+                  </option>
+                ))}
+              </select>
+              {assignForm.formState.errors.assigneeEmail && (
+                <p className="text-sm text-red-600">{assignForm.formState.errors.assigneeEmail.message}</p>
+              )}
+            </div>
+
+            <AlertDialogFooter>
+              <AlertDialogCancel type="button">Cancel</AlertDialogCancel>
+              <Button type="submit">Apply to {selected.length} incidents</Button>
+            </AlertDialogFooter>
+          </form>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,17 @@
+import React from 'react';
+import { usePermission } from '@/hooks/usePermission';
+import { Permission } from '@/lib/permissions';
+
+interface CanProps {
+  permission: Permission | Permission[];
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+}
+
+// Renders children only when the signed-in user has the given permission(s)
+const Can: React.FC<CanProps> = ({ permission, children, fallback = null }) => {
+  const allowed = usePermission(permission);
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
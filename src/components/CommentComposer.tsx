@@ -0,0 +1,342 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { commentsApi } from '@/api/comments';
+import { isSafeSnapApiError } from '@/api/errors';
+import { storageApi } from '@/api/storage';
+import { ROLE_LABELS } from '@/lib/permissions';
+import { CommentMention, CreateCommentRequest, User } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import AuthenticatedImage from '@/components/AuthenticatedImage';
+import { AlertTriangle, Bold, Code, Italic, List, Loader2, Lock, Paperclip, X } from 'lucide-react';
+
+interface Attachment {
+  url: string;
+  // Local preview for files uploaded in this session; saved attachments load through the image proxy
+  previewUrl?: string;
+}
+
+interface CommentComposerProps {
+  incidentId: string;
+  initialBody?: string;
+  initialMentions?: CommentMention[];
+  initialAttachmentUrls?: string[];
+  // Show the "internal" toggle (new comments only, for users with comment.internal)
+  allowInternal?: boolean;
+  submitLabel: string;
+  isSubmitting: boolean;
+  error?: Error | null;
+  onSubmit: (data: CreateCommentRequest) => void;
+  onCancel?: () => void;
+}
+
+// "@" followed by what has been typed of a name, right before the caret
+const MENTION_QUERY = /(?:^|\s)@([\w.'-]*)$/;
+
+const MAX_ATTACHMENTS = 4;
+
+const errorMessage = (error: Error) =>
+  (isSafeSnapApiError(error) && (error.validationErrors.body || error.validationErrors.attachmentUrls)) || error.message;
+
+const CommentComposer: React.FC<CommentComposerProps> = ({
+  incidentId,
+  initialBody = '',
+  initialMentions = [],
+  initialAttachmentUrls = [],
+  allowInternal = false,
+  submitLabel,
+  isSubmitting,
+  error,
+  onSubmit,
+  onCancel,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [body, setBody] = useState(initialBody);
+  const [mentions, setMentions] = useState<CommentMention[]>(initialMentions);
+  const [attachments, setAttachments] = useState<Attachment[]>(initialAttachmentUrls.map((url) => ({ url })));
+  const [internal, setInternal] = useState(false);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // Object URLs still held for previews. A posted comment remounts the composer and a saved edit
+  // closes it, so revoking on unmount also covers successful submits and navigating away.
+  const previewUrls = useRef(new Set<string>());
+
+  useEffect(() => {
+    const urls = previewUrls.current;
+    return () => {
+      urls.forEach((url) => URL.revokeObjectURL(url));
+      urls.clear();
+    };
+  }, []);
+
+  const { data: candidates = [] } = useQuery({
+    queryKey: ['incident', incidentId, 'mention-candidates', mentionQuery],
+    queryFn: () => commentsApi.getMentionCandidates(incidentId, mentionQuery || undefined),
+    enabled: mentionQuery !== null,
+    staleTime: 60 * 1000,
+  });
+
+  const showSuggestions = mentionQuery !== null && candidates.length > 0;
+
+  const updateMentionQuery = (value: string, caret: number) => {
+    const match = MENTION_QUERY.exec(value.slice(0, caret));
+    setMentionQuery(match ? match[1] : null);
+    setActiveIndex(0);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setBody(e.target.value);
+    updateMentionQuery(e.target.value, e.target.selectionStart);
+  };
+
+  // Put the caret back after React re-renders the new value
+  const setCaret = (position: number) => {
+    window.requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const insertMention = (user: User) => {
+    const caret = textareaRef.current?.selectionStart ?? body.length;
+    const before = body.slice(0, caret).replace(/@[\w.'-]*$/, `@${user.name} `);
+    setBody(before + body.slice(caret));
+    setMentions((prev) => (prev.some((mention) => mention.email === user.email) ? prev : [...prev, { name: user.name, email: user.email }]));
+    setMentionQuery(null);
+    setCaret(before.length);
+  };
+
+  // Wrap the selection (or insert a placeholder) with markdown-lite markers
+  const applyFormat = (prefix: string, suffix = prefix, placeholder = 'text') => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? body.length;
+    const end = textarea?.selectionEnd ?? body.length;
+    const selected = body.slice(start, end) || placeholder;
+    setBody(body.slice(0, start) + prefix + selected + suffix + body.slice(end));
+    setCaret(start + prefix.length + selected.length + suffix.length);
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const images = Array.from(files).filter((file) => file.type.startsWith('image/'));
+    if (attachments.length + images.length > MAX_ATTACHMENTS) {
+      setUploadError(`You can attach up to ${MAX_ATTACHMENTS} images to a comment.`);
+      return;
+    }
+
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      for (const file of images) {
+        const { uploadUrl, fileUrl } = await storageApi.getUploadUrl(file.name, file.type);
+        await storageApi.uploadFile(uploadUrl, file);
+        const previewUrl = URL.createObjectURL(file);
+        previewUrls.current.add(previewUrl);
+        setAttachments((prev) => [...prev, { url: fileUrl, previewUrl }]);
+      }
+    } catch (error) {
+      setUploadError('Failed to upload images. Please try again.');
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const removeAttachment = (attachment: Attachment) => {
+    if (attachment.previewUrl) {
+      URL.revokeObjectURL(attachment.previewUrl);
+      previewUrls.current.delete(attachment.previewUrl);
+    }
+    setAttachments((prev) => prev.filter((item) => item !== attachment));
+  };
+
+  const canSubmit = (body.trim().length > 0 || attachments.length > 0) && !isSubmitting && !isUploading;
+
+  const submit = () => {
+    if (!canSubmit) return;
+    onSubmit({
+      body: body.trim(),
+      internal: allowInternal && internal,
+      // Mentions whose text was edited away no longer count
+      mentionedEmails: mentions.filter((mention) => body.includes(`@${mention.name}`)).map((mention) => mention.email),
+      attachmentUrls: attachments.map((attachment) => attachment.url),
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (showSuggestions) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setActiveIndex((index) => Math.min(index + 1, candidates.length - 1));
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setActiveIndex((index) => Math.max(index - 1, 0));
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(candidates[activeIndex]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit();
+      }}
+      className="space-y-2"
+    >
+      {(error || uploadError) && (
+        <div className="flex items-center space-x-2 text-red-600 text-sm">
+          <AlertTriangle className="h-4 w-4" />
+          <span>{uploadError || (error && errorMessage(error))}</span>
+        </div>
+      )}
+
+      <div className="relative">
+        <div className="flex items-center gap-1 mb-1">
+          <Button type="button" variant="ghost" size="sm" title="Bold" onClick={() => applyFormat('**')}>
+            <Bold className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="sm" title="Italic" onClick={() => applyFormat('*')}>
+            <Italic className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="sm" title="Code" onClick={() => applyFormat('`', '`', 'code')}>
+            <Code className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="sm" title="List" onClick={() => applyFormat('\n- ', '', 'item')}>
+            <List className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <Textarea
+          ref={textareaRef}
+          value={body}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onClick={(e) => updateMentionQuery(body, e.currentTarget.selectionStart)}
+          onBlur={() => window.setTimeout(() => setMentionQuery(null), 150)}
+          placeholder="Add a comment... Use @ to mention a team member"
+          aria-label="Comment"
+          disabled={isSubmitting}
+        />
+
+        {showSuggestions && (
+          <ul
+            role="listbox"
+            className="absolute z-20 mt-1 w-72 max-h-56 overflow-y-auto bg-white border rounded-md shadow-lg py-1"
+          >
+            {candidates.map((candidate, index) => (
+              <li
+                key={candidate.id}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseDown={(e) => {
+                  // Keep focus in the textarea so the caret position survives
+                  e.preventDefault();
+                  insertMention(candidate);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+                className={`px-3 py-2 text-sm cursor-pointer ${index === activeIndex ? 'bg-gray-100' : ''}`}
+              >
+                <span className="font-medium">{candidate.name}</span>
+                <span className="ml-2 text-xs text-gray-500">{ROLE_LABELS[candidate.role]}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {attachments.map((attachment) => (
+            <div key={attachment.url} className="relative">
+              {attachment.previewUrl ? (
+                <img src={attachment.previewUrl} alt="Attachment" className="w-16 h-16 object-cover rounded border" />
+              ) : (
+                <AuthenticatedImage src={attachment.url} alt="Attachment" className="w-16 h-16 object-cover rounded border" />
+              )}
+              <button
+                type="button"
+                onClick={() => removeAttachment(attachment)}
+                className="absolute -top-1 -right-1 rounded-full bg-white border shadow p-0.5"
+                aria-label="Remove attachment"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading || attachments.length >= MAX_ATTACHMENTS}
+          >
+            {isUploading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Paperclip className="h-4 w-4 mr-1" />}
+            Image
+          </Button>
+          {allowInternal && (
+            <label className="flex items-center text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={internal}
+                onChange={(e) => setInternal(e.target.checked)}
+                className="mr-2"
+              />
+              <Lock className="h-3 w-3 mr-1 text-amber-600" />
+              Internal (hidden from the reporter)
+            </label>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          {onCancel && (
+            <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" size="sm" disabled={!canSubmit}>
+            {isSubmitting ? 'Saving...' : submitLabel}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default CommentComposer;
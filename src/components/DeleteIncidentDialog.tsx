@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { incidentsApi } from '@/api/incidents';
+import { applyApiErrors } from '@/lib/form-errors';
+import { IncidentListItem } from '@/types';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle } from 'lucide-react';
+
+const deleteIncidentSchema = z.object({
+  reason: z.string().trim().min(5, 'Please give a reason of at least 5 characters'),
+});
+
+type DeleteIncidentFormData = z.infer<typeof deleteIncidentSchema>;
+
+interface DeleteIncidentDialogProps {
+  incident: Pick<IncidentListItem, 'id' | 'title'>;
+  // The button that opens the dialog
+  children: React.ReactNode;
+  onDeleted?: () => void;
+}
+
+// Asks for a reason before moving an incident to the trash, where it can be restored until it is purged
+const DeleteIncidentDialog: React.FC<DeleteIncidentDialogProps> = ({ incident, children, onDeleted }) => {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+
+  const form = useForm<DeleteIncidentFormData>({
+    resolver: zodResolver(deleteIncidentSchema),
+    defaultValues: {
+      reason: '',
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (data: DeleteIncidentFormData) => incidentsApi.deleteIncident(incident.id, data),
+    onSuccess: () => {
+      queryClient.removeQueries({ queryKey: ['incident', incident.id] });
+      queryClient.invalidateQueries({ queryKey: ['incidents'] });
+      queryClient.invalidateQueries({ queryKey: ['metrics'] });
+      setOpen(false);
+      onDeleted?.();
+    },
+    onError: (error: Error) => {
+      applyApiErrors(form, error);
+    },
+  });
+
+  const handleOpenChange = (value: boolean) => {
+    if (deleteMutation.isPending) return;
+    if (!value) {
+      form.reset();
+    }
+    setOpen(value);
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger asChild>{children}</AlertDialogTrigger>
+      <AlertDialogContent>
+        <form onSubmit={form.handleSubmit((data) => deleteMutation.mutate(data))} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this incident?</AlertDialogTitle>
+            <AlertDialogDescription>
+              <span className="font-semibold text-gray-900">{incident.title}</span> will be moved to the trash.
+              Managers can restore it from the trash until it is permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {form.formState.errors.root && (
+            <div className="flex items-center space-x-2 text-red-600 text-sm">
+              <AlertTriangle className="h-4 w-4" />
+              <span>{form.formState.errors.root.message}</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="delete-reason">Reason</Label>
+            <Textarea
+              id="delete-reason"
+              placeholder="e.g. Duplicate of another report"
+              {...form.register('reason')}
+            />
+            {form.formState.errors.reason && (
+              <p className="text-sm text-red-600">{form.formState.errors.reason.message}</p>
+            )}
+          </div>
+
+          <AlertDialogFooter>
+            <AlertDialogCancel type="button" disabled={deleteMutation.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <Button type="submit" variant="destructive" disabled={deleteMutation.isPending}>
+              {deleteMutation.isPending ? 'Deleting...' : 'Delete incident'}
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default DeleteIncidentDialog;
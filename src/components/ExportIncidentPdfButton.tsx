@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { incidentsApi } from '@/api/incidents';
+import { useAuth } from '@/contexts/AuthContext';
+import { downloadBlob } from '@/lib/csv';
+import { buildIncidentReportPdf, incidentReportFilename } from '@/lib/incident-report-pdf';
+import { IncidentDetail } from '@/types';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/use-toast';
+import { FileDown, Loader2 } from 'lucide-react';
+
+interface ExportIncidentPdfButtonProps {
+  incident: IncidentDetail;
+}
+
+// Downloads the formal PDF report for an incident, e.g. for insurers and auditors
+const ExportIncidentPdfButton: React.FC<ExportIncidentPdfButtonProps> = ({ incident }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleExport = async () => {
+    setIsGenerating(true);
+    try {
+      // Shares the cache with the activity timeline on the same page
+      const history = await queryClient.fetchQuery({
+        queryKey: ['incident', incident.id, 'history'],
+        queryFn: () => incidentsApi.getHistory(incident.id),
+      });
+      const blob = await buildIncidentReportPdf({ incident, history, generatedBy: user?.name });
+      const filename = incidentReportFilename(incident);
+      downloadBlob(blob, filename);
+      toast({ title: 'Incident report ready', description: `Saved as ${filename}` });
+    } catch (error) {
+      toast({
+        title: 'Could not create the PDF report',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" onClick={handleExport} disabled={isGenerating}>
+      {isGenerating ? (
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+      ) : (
+        <FileDown className="h-4 w-4 mr-2" />
+      )}
+      {isGenerating ? 'Preparing PDF...' : 'Export PDF'}
+    </Button>
+  );
+};
+
+export default ExportIncidentPdfButton;
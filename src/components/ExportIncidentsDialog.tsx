@@ -0,0 +1,213 @@
+import React, { useRef, useState } from 'react';
+import { fetchAllMatchingIncidents } from '@/lib/bulk-actions';
+import { downloadBlob } from '@/lib/csv';
+import {
+  ExportColumnGroup,
+  ExportFormat,
+  INCIDENT_EXPORT_COLUMNS,
+  buildIncidentExport,
+  exportFilename,
+  getExportColumns,
+  getSavedExportColumnIds,
+  saveExportColumnIds,
+} from '@/lib/incident-export';
+import { IncidentQueryParams } from '@/types';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/use-toast';
+import { AlertTriangle, Download, FileSpreadsheet, FileText } from 'lucide-react';
+
+interface ExportIncidentsDialogProps {
+  // The dashboard's current filters; paging is ignored, every matching incident is exported
+  params: IncidentQueryParams;
+  matchingCount: number;
+}
+
+const COLUMN_GROUPS: ExportColumnGroup[] = ['Incident', 'Location', 'Assignment', 'Root Cause Analysis'];
+
+const FORMATS: { value: ExportFormat; label: string; icon: React.ReactNode }[] = [
+  { value: 'xlsx', label: 'Excel (.xlsx)', icon: <FileSpreadsheet className="h-4 w-4 mr-2" /> },
+  { value: 'csv', label: 'CSV (.csv)', icon: <FileText className="h-4 w-4 mr-2" /> },
+];
+
+class ExportCancelled extends Error {}
+
+// Exports the filtered incident register as a spreadsheet. Pages through the whole result
+// set in the browser, so large exports show how far along they are and can be cancelled.
+const ExportIncidentsDialog: React.FC<ExportIncidentsDialogProps> = ({ params, matchingCount }) => {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [columnIds, setColumnIds] = useState<string[]>(getSavedExportColumnIds);
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const cancelledRef = useRef(false);
+
+  const isExporting = !!progress;
+
+  const toggleColumn = (id: string) => {
+    setColumnIds(prev => (prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id]));
+  };
+
+  const toggleGroup = (group: ExportColumnGroup, checked: boolean) => {
+    const groupIds = INCIDENT_EXPORT_COLUMNS.filter((column) => column.group === group).map((column) => column.id);
+    setColumnIds(prev => (checked
+      ? [...prev, ...groupIds.filter((id) => !prev.includes(id))]
+      : prev.filter((id) => !groupIds.includes(id))));
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      // Closing mid-export stops it after the page being loaded
+      cancelledRef.current = true;
+    }
+    setError(null);
+    setOpen(next);
+  };
+
+  const handleExport = async () => {
+    cancelledRef.current = false;
+    setError(null);
+    setProgress({ loaded: 0, total: matchingCount });
+
+    try {
+      const incidents = await fetchAllMatchingIncidents(params, (loaded, total) => {
+        if (cancelledRef.current) {
+          throw new ExportCancelled();
+        }
+        setProgress({ loaded, total });
+      });
+
+      const filename = exportFilename(format);
+      const blob = await buildIncidentExport(incidents, getExportColumns(columnIds), format);
+      downloadBlob(blob, filename);
+      saveExportColumnIds(columnIds);
+      setOpen(false);
+      toast({
+        title: `Exported ${incidents.length} incident${incidents.length === 1 ? '' : 's'}`,
+        description: `Saved as ${filename}`,
+      });
+    } catch (err) {
+      if (!(err instanceof ExportCancelled)) {
+        setError(err instanceof Error ? err.message : 'Export failed');
+      }
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const percent = progress && progress.total > 0 ? Math.round((progress.loaded / progress.total) * 100) : 0;
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" disabled={matchingCount === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Export incident register</AlertDialogTitle>
+          <AlertDialogDescription>
+            All {matchingCount} incidents matching the current search and filters will be exported.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {error && (
+          <div className="flex items-center space-x-2 text-red-600 text-sm">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Format</p>
+          <div className="flex gap-2">
+            {FORMATS.map((item) => (
+              <Button
+                key={item.value}
+                type="button"
+                variant={format === item.value ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setFormat(item.value)}
+                disabled={isExporting}
+              >
+                {item.icon}
+                {item.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Columns</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-h-72 overflow-y-auto">
+            {COLUMN_GROUPS.map((group) => {
+              const columns = INCIDENT_EXPORT_COLUMNS.filter((column) => column.group === group);
+              const allChecked = columns.every((column) => columnIds.includes(column.id));
+
+              return (
+                <fieldset key={group} className="space-y-1" disabled={isExporting}>
+                  <label className="flex items-center gap-2 text-sm font-semibold text-gray-900">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 rounded border-gray-300"
+                      checked={allChecked}
+                      onChange={(e) => toggleGroup(group, e.target.checked)}
+                    />
+                    {group}
+                  </label>
+                  {columns.map((column) => (
+                    <label key={column.id} className="flex items-center gap-2 pl-6 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 rounded border-gray-300"
+                        checked={columnIds.includes(column.id)}
+                        onChange={() => toggleColumn(column.id)}
+                      />
+                      {column.header}
+                    </label>
+                  ))}
+                </fieldset>
+              );
+            })}
+          </div>
+          {columnIds.length === 0 && (
+            <p className="text-sm text-red-600">Choose at least one column</p>
+          )}
+        </div>
+
+        {progress && (
+          <div className="space-y-1">
+            <div className="h-2 w-full rounded-full bg-gray-100 overflow-hidden">
+              <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <p className="text-xs text-gray-500">
+              Loaded {progress.loaded} of {progress.total} incidents ({percent}%)
+            </p>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel type="button">
+            {isExporting ? 'Stop' : 'Cancel'}
+          </AlertDialogCancel>
+          <Button type="button" onClick={handleExport} disabled={isExporting || columnIds.length === 0}>
+            {isExporting ? 'Exporting...' : `Export ${format.toUpperCase()}`}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ExportIncidentsDialog;
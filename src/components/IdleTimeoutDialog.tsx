@@ -0,0 +1,36 @@
+import React from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+const IdleTimeoutDialog: React.FC = () => {
+  const { idleSecondsRemaining, stayActive, logout } = useAuth();
+
+  return (
+    <AlertDialog open={idleSecondsRemaining !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Are you still there?</AlertDialogTitle>
+          <AlertDialogDescription>
+            You have been inactive for a while. For security you will be signed out in{' '}
+            <span className="font-semibold text-gray-900">{idleSecondsRemaining ?? 0}</span> seconds.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={logout}>Log out now</AlertDialogCancel>
+          <AlertDialogAction onClick={stayActive}>Stay signed in</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default IdleTimeoutDialog;
@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { incidentsApi } from '@/api/incidents';
+import { usePermission } from '@/hooks/usePermission';
+import {
+  BOARD_STATUSES,
+  BoardColumnData,
+  addToColumn,
+  boardColumnKey,
+  getMoveRejection,
+  removeFromColumn,
+  toBoardFilters,
+} from '@/lib/incident-board';
+import { NOTE_MIN_LENGTH, STATUS_LABELS, StatusTransition, findTransition } from '@/lib/incident-workflow';
+import { IncidentListItem, IncidentQueryParams, IncidentStatus } from '@/types';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/components/ui/use-toast';
+import IncidentBoardColumn from '@/components/IncidentBoardColumn';
+
+interface IncidentBoardProps {
+  params: IncidentQueryParams;
+}
+
+interface BoardMove {
+  incident: IncidentListItem;
+  to: IncidentStatus;
+  note?: string;
+}
+
+const noteSchema = z.object({
+  note: z.string().trim().min(NOTE_MIN_LENGTH, `Please write at least ${NOTE_MIN_LENGTH} characters`),
+});
+
+type NoteFormData = z.infer<typeof noteSchema>;
+
+// Incidents as cards in one column per status. Dropping a card on another column changes its
+// status straight away and puts it back if the server refuses; steps that need a note ask for it first.
+const IncidentBoard: React.FC<IncidentBoardProps> = ({ params }) => {
+  const queryClient = useQueryClient();
+  const canMove = usePermission('incident.update_status');
+  const [dragging, setDragging] = useState<IncidentListItem | null>(null);
+  const [pendingMove, setPendingMove] = useState<{ incident: IncidentListItem; transition: StatusTransition } | null>(
+    null
+  );
+  const filters = toBoardFilters(params);
+
+  const form = useForm<NoteFormData>({
+    resolver: zodResolver(noteSchema),
+    defaultValues: {
+      note: '',
+    },
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: ({ incident, to, note }: BoardMove) => incidentsApi.updateStatus(incident.id, to, note),
+    onMutate: async ({ incident, to }) => {
+      const fromKey = boardColumnKey(incident.status, filters);
+      const toKey = boardColumnKey(to, filters);
+      await queryClient.cancelQueries({ queryKey: fromKey });
+      await queryClient.cancelQueries({ queryKey: toKey });
+
+      const previous = {
+        from: queryClient.getQueryData<BoardColumnData>(fromKey),
+        to: queryClient.getQueryData<BoardColumnData>(toKey),
+      };
+      queryClient.setQueryData<BoardColumnData>(fromKey, (data) => removeFromColumn(data, incident.id));
+      queryClient.setQueryData<BoardColumnData>(toKey, (data) => addToColumn(data, { ...incident, status: to }));
+      return previous;
+    },
+    onError: (error: Error, { incident, to }, previous) => {
+      queryClient.setQueryData(boardColumnKey(incident.status, filters), previous?.from);
+      queryClient.setQueryData(boardColumnKey(to, filters), previous?.to);
+      toast({
+        title: `Could not move "${incident.title}" to ${STATUS_LABELS[to]}`,
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+    onSettled: (_, __, { incident }) => {
+      queryClient.invalidateQueries({ queryKey: ['incident', incident.id] });
+      queryClient.invalidateQueries({ queryKey: ['incidents'] });
+      queryClient.invalidateQueries({ queryKey: ['metrics'] });
+    },
+  });
+
+  const handleDrop = (to: IncidentStatus) => {
+    const incident = dragging;
+    setDragging(null);
+    if (!incident || incident.status === to) return;
+
+    const rejection = getMoveRejection(incident, to);
+    const transition = findTransition(incident.status, to);
+    if (rejection || !transition) {
+      toast({ title: `Can't move "${incident.title}"`, description: rejection ?? undefined, variant: 'destructive' });
+      return;
+    }
+
+    if (transition.note) {
+      form.reset();
+      setPendingMove({ incident, transition });
+    } else {
+      moveMutation.mutate({ incident, to });
+    }
+  };
+
+  // The move is optimistic, so the dialog closes as soon as the note is in
+  const submitNote = ({ note }: NoteFormData) => {
+    if (!pendingMove) return;
+    moveMutation.mutate({ incident: pendingMove.incident, to: pendingMove.transition.to, note });
+    setPendingMove(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-600">
+        {canMove
+          ? 'Drag a card to another column to change its status.'
+          : 'You can view the board, but not change incident statuses.'}
+        {params.status && ' The board shows every status, so the status filter only applies to the list layouts.'}
+      </p>
+
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {BOARD_STATUSES.map((status) => (
+          <IncidentBoardColumn
+            key={status}
+            status={status}
+            filters={filters}
+            dragging={dragging}
+            canMove={canMove}
+            onDragStart={setDragging}
+            onDragEnd={() => setDragging(null)}
+            onDrop={handleDrop}
+          />
+        ))}
+      </div>
+
+      <AlertDialog open={!!pendingMove} onOpenChange={(open) => !open && setPendingMove(null)}>
+        <AlertDialogContent>
+          {pendingMove?.transition.note && (
+            <form onSubmit={form.handleSubmit(submitNote)} className="space-y-4">
+              <AlertDialogHeader>
+                <AlertDialogTitle>
+                  {pendingMove.transition.action}: {STATUS_LABELS[pendingMove.incident.status]} →{' '}
+                  {STATUS_LABELS[pendingMove.transition.to]}
+                </AlertDialogTitle>
+                <AlertDialogDescription>
+                  <span className="font-semibold text-gray-900">{pendingMove.incident.title}</span>. The note is
+                  saved with the status change and shown in the incident's activity.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+
+              <div className="space-y-2">
+                <Label htmlFor="board-status-note">{pendingMove.transition.note.label}</Label>
+                <Textarea
+                  id="board-status-note"
+                  placeholder={pendingMove.transition.note.placeholder}
+                  {...form.register('note')}
+                />
+                {form.formState.errors.note && (
+                  <p className="text-sm text-red-600">{form.formState.errors.note.message}</p>
+                )}
+              </div>
+
+              <AlertDialogFooter>
+                <AlertDialogCancel type="button">Cancel</AlertDialogCancel>
+                <Button type="submit">Move to {STATUS_LABELS[pendingMove.transition.to]}</Button>
+              </AlertDialogFooter>
+            </form>
+          )}
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default IncidentBoard;
@@ -0,0 +1,188 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { incidentsApi } from '@/api/incidents';
+import { BOARD_PAGE_SIZE, boardColumnKey, getMoveRejection } from '@/lib/incident-board';
+import { STATUS_LABELS } from '@/lib/incident-workflow';
+import { IncidentListItem, IncidentQueryParams, IncidentStatus } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Ban, Clock, User } from 'lucide-react';
+
+interface IncidentBoardColumnProps {
+  status: IncidentStatus;
+  filters: IncidentQueryParams;
+  // The card being dragged anywhere on the board
+  dragging: IncidentListItem | null;
+  canMove: boolean;
+  onDragStart: (incident: IncidentListItem) => void;
+  onDragEnd: () => void;
+  onDrop: (status: IncidentStatus) => void;
+}
+
+const severityColors = {
+  LOW: 'bg-green-100 text-green-800',
+  MEDIUM: 'bg-yellow-100 text-yellow-800',
+  HIGH: 'bg-orange-100 text-orange-800',
+  CRITICAL: 'bg-red-100 text-red-800',
+};
+
+// One status column. It loads its own pages, fetching the next one when the end of the column
+// scrolls into view, and shows whether the card being dragged may be dropped here.
+const IncidentBoardColumn: React.FC<IncidentBoardColumnProps> = ({
+  status,
+  filters,
+  dragging,
+  canMove,
+  onDragStart,
+  onDragEnd,
+  onDrop,
+}) => {
+  const [isOver, setIsOver] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const loadMoreRef = useRef<HTMLButtonElement>(null);
+
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: boardColumnKey(status, filters),
+    queryFn: ({ pageParam }) =>
+      incidentsApi.getAllIncidents({ ...filters, status, page: pageParam, size: BOARD_PAGE_SIZE }),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) => (lastPage.last ? undefined : allPages.length),
+  });
+
+  useEffect(() => {
+    const button = loadMoreRef.current;
+    if (!button || !hasNextPage || isFetchingNextPage) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) fetchNextPage();
+      },
+      { root: scrollRef.current }
+    );
+    observer.observe(button);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const incidents = data?.pages.flatMap((page) => page.content) ?? [];
+  const total = data?.pages[0]?.totalElements;
+
+  const isTarget = !!dragging && dragging.status !== status;
+  const rejection = dragging && isTarget ? getMoveRejection(dragging, status) : null;
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isTarget) return;
+    // Rejected moves still accept the drop, so the board can explain why nothing happened
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsOver(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsOver(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsOver(false);
+    onDrop(status);
+  };
+
+  const dropClassName = !isTarget
+    ? 'border-transparent'
+    : rejection
+      ? `border-dashed ${isOver ? 'border-red-400 bg-red-50' : 'border-gray-300'}`
+      : `border-dashed ${isOver ? 'border-primary bg-blue-50' : 'border-blue-300'}`;
+
+  return (
+    <div
+      className={`flex flex-col w-72 flex-shrink-0 rounded-lg border-2 bg-gray-100 transition-colors ${dropClassName}`}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      <div className="flex items-center justify-between px-3 py-2">
+        <h3 className="text-sm font-semibold text-gray-800">{STATUS_LABELS[status]}</h3>
+        <span className="rounded-full bg-white px-2 text-xs text-gray-700">{total ?? '…'}</span>
+      </div>
+
+      {rejection && isOver && (
+        <p className="flex items-start gap-1 mx-3 mb-2 text-xs text-red-700">
+          <Ban className="h-3 w-3 mt-0.5 flex-shrink-0" />
+          {rejection}
+        </p>
+      )}
+
+      <div ref={scrollRef} className="flex-1 max-h-[70vh] overflow-y-auto px-3 pb-3 space-y-2">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <div className="flex items-center space-x-2 text-red-600 text-sm py-4">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{error.message}</span>
+          </div>
+        ) : incidents.length === 0 ? (
+          <p className="py-6 text-center text-xs text-gray-500">No incidents</p>
+        ) : (
+          incidents.map((incident) => (
+            <div
+              key={incident.id}
+              draggable={canMove}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                // Firefox only starts a drag when there is data
+                e.dataTransfer.setData('text/plain', incident.id);
+                onDragStart(incident);
+              }}
+              onDragEnd={onDragEnd}
+              className={`rounded-md border bg-white p-3 shadow-sm text-sm ${canMove ? 'cursor-grab' : ''} ${
+                dragging?.id === incident.id ? 'opacity-50' : ''
+              }`}
+            >
+              <div className="flex items-center gap-2 mb-1">
+                <Badge className={severityColors[incident.severity]}>{incident.severity}</Badge>
+                {incident.rcaReport && <Badge className="bg-blue-100 text-blue-800">RCA</Badge>}
+              </div>
+              <Link
+                to={`/manager/incidents/${incident.id}`}
+                className="block font-medium text-gray-900 hover:underline line-clamp-2"
+                draggable={false}
+              >
+                {incident.title}
+              </Link>
+              <div className="mt-2 space-y-1 text-xs text-gray-500">
+                <div className="flex items-center">
+                  <Clock className="h-3 w-3 mr-1" />
+                  {new Date(incident.reportedAt).toLocaleDateString()} by {incident.reportedBy}
+                </div>
+                <div className="flex items-center">
+                  <User className="h-3 w-3 mr-1" />
+                  {incident.assignedTo ?? 'Unassigned'}
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+
+        {hasNextPage && (
+          <Button
+            ref={loadMoreRef}
+            variant="ghost"
+            size="sm"
+            className="w-full"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+          >
+            {isFetchingNextPage ? 'Loading...' : 'Load more'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IncidentBoardColumn;
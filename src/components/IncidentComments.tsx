@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { commentsApi } from '@/api/comments';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermission } from '@/hooks/usePermission';
+import { ROLE_LABELS } from '@/lib/permissions';
+import { CreateCommentRequest, IncidentComment, UpdateCommentRequest } from '@/types';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import AuthenticatedImage from '@/components/AuthenticatedImage';
+import CommentComposer from '@/components/CommentComposer';
+import MarkdownLite from '@/components/MarkdownLite';
+import { AlertTriangle, Lock, MessageSquare, Pencil, Trash2 } from 'lucide-react';
+
+interface IncidentCommentsProps {
+  incidentId: string;
+}
+
+const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .map((part) => part.charAt(0))
+    .join('')
+    .slice(0, 2)
+    .toUpperCase();
+
+interface CommentItemProps {
+  comment: IncidentComment;
+  isOwn: boolean;
+  onUpdate: (data: UpdateCommentRequest) => Promise<unknown>;
+  onDelete: () => void;
+}
+
+const CommentItem: React.FC<CommentItemProps> = ({ comment, isOwn, onUpdate, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const handleUpdate = async ({ body, mentionedEmails, attachmentUrls }: CreateCommentRequest) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onUpdate({ body, mentionedEmails, attachmentUrls });
+      setIsEditing(false);
+    } catch (updateError) {
+      setError(updateError as Error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <li className={`flex gap-3 rounded-md p-3 ${comment.internal ? 'bg-amber-50 border border-amber-200' : ''}`}>
+      <span className="flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full bg-gray-200 text-xs font-semibold text-gray-700">
+        {initials(comment.author.name)}
+      </span>
+
+      <div className="min-w-0 flex-1">
+        <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+          <span className="font-medium text-gray-900">{comment.author.name}</span>
+          <span className="text-xs text-gray-500">{ROLE_LABELS[comment.author.role]}</span>
+          <time dateTime={comment.createdAt} className="text-xs text-gray-500">
+            {new Date(comment.createdAt).toLocaleString()}
+          </time>
+          {comment.updatedAt && <span className="text-xs text-gray-400">(edited)</span>}
+          {comment.internal && (
+            <Badge className="bg-amber-100 text-amber-800 text-xs">
+              <Lock className="h-3 w-3 mr-1" />
+              Internal
+            </Badge>
+          )}
+
+          {isOwn && !isEditing && (
+            <div className="ml-auto flex items-center gap-1">
+              <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)} aria-label="Edit comment">
+                <Pencil className="h-3 w-3" />
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="sm" className="text-red-600" aria-label="Delete comment">
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete this comment?</AlertDialogTitle>
+                    <AlertDialogDescription>This can't be undone.</AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={onDelete}>Delete</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          )}
+        </div>
+
+        {isEditing ? (
+          <div className="mt-2">
+            <CommentComposer
+              incidentId={comment.incidentId}
+              initialBody={comment.body}
+              initialMentions={comment.mentions}
+              initialAttachmentUrls={comment.attachmentUrls}
+              submitLabel="Save"
+              isSubmitting={isSaving}
+              error={error}
+              onSubmit={handleUpdate}
+              onCancel={() => setIsEditing(false)}
+            />
+          </div>
+        ) : (
+          <>
+            {comment.body && (
+              <MarkdownLite
+                text={comment.body}
+                mentionNames={comment.mentions.map((mention) => mention.name)}
+                className="mt-1"
+              />
+            )}
+            {comment.attachmentUrls.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {comment.attachmentUrls.map((url, index) => (
+                  <AuthenticatedImage
+                    key={url}
+                    src={url}
+                    alt={`Comment attachment ${index + 1}`}
+                    className="w-24 h-24 object-cover rounded border cursor-pointer"
+                    onClick={() => window.open(url, '_blank')}
+                  />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </li>
+  );
+};
+
+// Discussion thread for an incident, shared by the reporter and the people handling it
+const IncidentComments: React.FC<IncidentCommentsProps> = ({ incidentId }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const canPostInternal = usePermission('comment.internal');
+  // Remounting the composer after a post clears its text, mentions and attachments
+  const [composerKey, setComposerKey] = useState(0);
+
+  const commentsQueryKey = ['incident', incidentId, 'comments'];
+
+  const { data: comments = [], isLoading, error } = useQuery({
+    queryKey: commentsQueryKey,
+    queryFn: () => commentsApi.getComments(incidentId),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (data: CreateCommentRequest) => commentsApi.createComment(incidentId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentsQueryKey });
+      setComposerKey((key) => key + 1);
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ commentId, data }: { commentId: string; data: UpdateCommentRequest }) =>
+      commentsApi.updateComment(incidentId, commentId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentsQueryKey });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (commentId: string) => commentsApi.deleteComment(incidentId, commentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentsQueryKey });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <MessageSquare className="h-5 w-5 mr-2" />
+          Comments {comments.length > 0 && <span className="ml-2 text-sm font-normal text-gray-500">({comments.length})</span>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {(error || deleteMutation.error) && (
+          <div className="flex items-center space-x-2 text-red-600 text-sm">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{(error || deleteMutation.error)?.message}</span>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : comments.length === 0 ? (
+          <p className="text-sm text-gray-500">No comments yet. Start the conversation below.</p>
+        ) : (
+          <ul className="space-y-2">
+            {comments.map((comment) => (
+              <CommentItem
+                key={comment.id}
+                comment={comment}
+                isOwn={comment.author.email === user?.email}
+                onUpdate={(data) => updateMutation.mutateAsync({ commentId: comment.id, data })}
+                onDelete={() => deleteMutation.mutate(comment.id)}
+              />
+            ))}
+          </ul>
+        )}
+
+        <div className="border-t pt-4">
+          <CommentComposer
+            key={composerKey}
+            incidentId={incidentId}
+            allowInternal={canPostInternal}
+            submitLabel="Comment"
+            isSubmitting={createMutation.isPending}
+            error={createMutation.error}
+            onSubmit={(data) => createMutation.mutate(data)}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default IncidentComments;
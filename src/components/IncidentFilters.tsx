@@ -0,0 +1,406 @@
+import React, { useEffect, useState } from 'react';
+import { UNASSIGNED, countActiveFilters } from '@/lib/incident-filters';
+import { STATUS_LABELS } from '@/lib/incident-workflow';
+import { IncidentQueryParams, RcaSuggestionStatus } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Crosshair, Filter, Search, X } from 'lucide-react';
+
+interface IncidentFiltersProps {
+  params: IncidentQueryParams;
+  onChange: (filters: Partial<IncidentQueryParams>) => void;
+  onClear: () => void;
+  // The worker dashboard only lists the worker's own reports, so filtering by reporter is pointless there
+  showReporterFilter?: boolean;
+  // Extra controls shown at the end of the filter row, e.g. an export button
+  actions?: React.ReactNode;
+}
+
+type AdvancedFilters = Pick<
+  IncidentQueryParams,
+  | 'reportedFrom'
+  | 'reportedTo'
+  | 'reporter'
+  | 'assignee'
+  | 'hasRca'
+  | 'rcaStatus'
+  | 'imageTag'
+  | 'location'
+  | 'nearLatitude'
+  | 'nearLongitude'
+  | 'radiusKm'
+>;
+
+const ADVANCED_KEYS: (keyof AdvancedFilters)[] = [
+  'reportedFrom',
+  'reportedTo',
+  'reporter',
+  'assignee',
+  'hasRca',
+  'rcaStatus',
+  'imageTag',
+  'location',
+  'nearLatitude',
+  'nearLongitude',
+  'radiusKm',
+];
+
+const RCA_STATUS_LABELS: Record<RcaSuggestionStatus, string> = {
+  GENERATED: 'Generated',
+  REVIEWED: 'Reviewed',
+  APPROVED: 'Approved',
+};
+
+const RADIUS_OPTIONS = [0.5, 1, 5, 25];
+
+const pickAdvanced = (params: IncidentQueryParams): AdvancedFilters => {
+  return Object.fromEntries(ADVANCED_KEYS.map((key) => [key, params[key]])) as AdvancedFilters;
+};
+
+// One removable chip per applied advanced filter
+const describeFilters = (params: IncidentQueryParams): { label: string; clear: Partial<IncidentQueryParams> }[] => {
+  const chips: { label: string; clear: Partial<IncidentQueryParams> }[] = [];
+  if (params.reportedFrom) chips.push({ label: `Reported from ${params.reportedFrom}`, clear: { reportedFrom: undefined } });
+  if (params.reportedTo) chips.push({ label: `Reported until ${params.reportedTo}`, clear: { reportedTo: undefined } });
+  if (params.reporter) chips.push({ label: `Reporter: ${params.reporter}`, clear: { reporter: undefined } });
+  if (params.assignee) {
+    chips.push({
+      label: params.assignee === UNASSIGNED ? 'Unassigned' : `Assignee: ${params.assignee}`,
+      clear: { assignee: undefined },
+    });
+  }
+  if (params.hasRca !== undefined) {
+    chips.push({ label: params.hasRca ? 'RCA report completed' : 'No RCA report', clear: { hasRca: undefined } });
+  }
+  if (params.rcaStatus) chips.push({ label: `AI RCA: ${RCA_STATUS_LABELS[params.rcaStatus]}`, clear: { rcaStatus: undefined } });
+  if (params.imageTag) chips.push({ label: `Image tag: ${params.imageTag}`, clear: { imageTag: undefined } });
+  if (params.location) chips.push({ label: `Location: ${params.location}`, clear: { location: undefined } });
+  if (params.radiusKm) {
+    chips.push({
+      label: `Within ${params.radiusKm} km of ${params.nearLatitude?.toFixed(4)}, ${params.nearLongitude?.toFixed(4)}`,
+      clear: { radiusKm: undefined, nearLatitude: undefined, nearLongitude: undefined },
+    });
+  }
+  return chips;
+};
+
+// Search, status and severity apply straight away; the rest are edited together in the
+// "More filters" panel and applied with one click. The current values come from the URL (see useIncidentQueryParams).
+const IncidentFilters: React.FC<IncidentFiltersProps> = ({
+  params,
+  onChange,
+  onClear,
+  showReporterFilter = false,
+  actions,
+}) => {
+  const [searchTerm, setSearchTerm] = useState(params.search ?? '');
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [draft, setDraft] = useState<AdvancedFilters>(() => pickAdvanced(params));
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  // Follow the URL when it changes from outside, e.g. back/forward navigation
+  useEffect(() => {
+    setSearchTerm(params.search ?? '');
+  }, [params.search]);
+
+  const toggleAdvanced = () => {
+    if (!showAdvanced) {
+      setDraft(pickAdvanced(params));
+      setDraftError(null);
+    }
+    setShowAdvanced(!showAdvanced);
+  };
+
+  const updateDraft = (filters: Partial<AdvancedFilters>) => {
+    setDraft(prev => ({ ...prev, ...filters }));
+    setDraftError(null);
+  };
+
+  const textValue = (value?: string) => value?.trim() || undefined;
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    onChange({ search: textValue(searchTerm) });
+  };
+
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      setDraftError('Location is not available in this browser');
+      return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        updateDraft({
+          nearLatitude: Number(position.coords.latitude.toFixed(6)),
+          nearLongitude: Number(position.coords.longitude.toFixed(6)),
+          radiusKm: draft.radiusKm ?? 1,
+        });
+      },
+      () => {
+        setIsLocating(false);
+        setDraftError('Could not get your location. Check the browser permission and try again.');
+      }
+    );
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.reportedFrom && draft.reportedTo && draft.reportedFrom > draft.reportedTo) {
+      setDraftError('The start date must be before the end date');
+      return;
+    }
+    if (draft.radiusKm && (draft.nearLatitude === undefined || draft.nearLongitude === undefined)) {
+      setDraftError('Use your location to filter by distance');
+      return;
+    }
+
+    onChange({
+      ...draft,
+      reporter: textValue(draft.reporter),
+      assignee: textValue(draft.assignee),
+      imageTag: textValue(draft.imageTag),
+      location: textValue(draft.location),
+      reportedFrom: draft.reportedFrom || undefined,
+      reportedTo: draft.reportedTo || undefined,
+    });
+    setShowAdvanced(false);
+  };
+
+  const activeCount = countActiveFilters(params);
+  const advancedCount = countActiveFilters(pickAdvanced(params));
+  const chips = describeFilters(params);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-4">
+        <form onSubmit={handleSearch} className="flex-1">
+          <div className="flex">
+            <Input
+              placeholder="Search incidents..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="flex-1"
+            />
+            <Button type="submit" className="ml-2">
+              <Search className="h-4 w-4" />
+            </Button>
+          </div>
+        </form>
+
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={params.status || ''}
+            onChange={(e) => onChange({ status: (e.target.value || undefined) as IncidentQueryParams['status'] })}
+            className="px-3 py-2 border rounded-md"
+          >
+            <option value="">All Status</option>
+            {Object.entries(STATUS_LABELS).map(([status, label]) => (
+              <option key={status} value={status}>{label}</option>
+            ))}
+          </select>
+
+          <select
+            value={params.severity || ''}
+            onChange={(e) => onChange({ severity: (e.target.value || undefined) as IncidentQueryParams['severity'] })}
+            className="px-3 py-2 border rounded-md"
+          >
+            <option value="">All Severity</option>
+            <option value="LOW">Low</option>
+            <option value="MEDIUM">Medium</option>
+            <option value="HIGH">High</option>
+            <option value="CRITICAL">Critical</option>
+          </select>
+
+          <Button type="button" variant={showAdvanced ? 'default' : 'outline'} onClick={toggleAdvanced}>
+            <Filter className="h-4 w-4 mr-2" />
+            More filters
+            {advancedCount > 0 && (
+              <Badge className="ml-2 bg-white text-primary">{advancedCount}</Badge>
+            )}
+          </Button>
+
+          {actions}
+        </div>
+      </div>
+
+      {showAdvanced && (
+        <form onSubmit={handleApply} className="rounded-lg border bg-gray-50 p-4 space-y-4">
+          {draftError && (
+            <div className="flex items-center space-x-2 text-red-600 text-sm">
+              <AlertTriangle className="h-4 w-4" />
+              <span>{draftError}</span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="filter-reported-from">Reported from</Label>
+              <Input
+                id="filter-reported-from"
+                type="date"
+                value={draft.reportedFrom ?? ''}
+                onChange={(e) => updateDraft({ reportedFrom: e.target.value || undefined })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="filter-reported-to">Reported until</Label>
+              <Input
+                id="filter-reported-to"
+                type="date"
+                value={draft.reportedTo ?? ''}
+                onChange={(e) => updateDraft({ reportedTo: e.target.value || undefined })}
+              />
+            </div>
+
+            {showReporterFilter && (
+              <div className="space-y-2">
+                <Label htmlFor="filter-reporter">Reporter</Label>
+                <Input
+                  id="filter-reporter"
+                  placeholder="Name or email"
+                  value={draft.reporter ?? ''}
+                  onChange={(e) => updateDraft({ reporter: e.target.value })}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="filter-assignee">Assignee</Label>
+              <Input
+                id="filter-assignee"
+                placeholder="Name or email"
+                value={draft.assignee === UNASSIGNED ? '' : draft.assignee ?? ''}
+                onChange={(e) => updateDraft({ assignee: e.target.value })}
+                disabled={draft.assignee === UNASSIGNED}
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 rounded border-gray-300"
+                  checked={draft.assignee === UNASSIGNED}
+                  onChange={(e) => updateDraft({ assignee: e.target.checked ? UNASSIGNED : undefined })}
+                />
+                Only unassigned incidents
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="filter-has-rca">RCA report</Label>
+              <select
+                id="filter-has-rca"
+                className="w-full px-3 py-2 border rounded-md bg-white"
+                value={draft.hasRca === undefined ? '' : String(draft.hasRca)}
+                onChange={(e) => updateDraft({ hasRca: e.target.value === '' ? undefined : e.target.value === 'true' })}
+              >
+                <option value="">Any</option>
+                <option value="true">Completed</option>
+                <option value="false">Not completed</option>
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="filter-rca-status">AI RCA suggestions</Label>
+              <select
+                id="filter-rca-status"
+                className="w-full px-3 py-2 border rounded-md bg-white"
+                value={draft.rcaStatus ?? ''}
+                onChange={(e) => updateDraft({ rcaStatus: (e.target.value || undefined) as RcaSuggestionStatus | undefined })}
+              >
+                <option value="">Any</option>
+                {Object.entries(RCA_STATUS_LABELS).map(([status, label]) => (
+                  <option key={status} value={status}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="filter-image-tag">Image tag</Label>
+              <Input
+                id="filter-image-tag"
+                placeholder="e.g. ladder, spill"
+                value={draft.imageTag ?? ''}
+                onChange={(e) => updateDraft({ imageTag: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="filter-location">Location</Label>
+              <Input
+                id="filter-location"
+                placeholder="e.g. Warehouse B"
+                value={draft.location ?? ''}
+                onChange={(e) => updateDraft({ location: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="filter-radius">Distance from me</Label>
+              <div className="flex gap-2">
+                <select
+                  id="filter-radius"
+                  className="flex-1 px-3 py-2 border rounded-md bg-white"
+                  value={draft.radiusKm ?? ''}
+                  onChange={(e) => updateDraft({ radiusKm: e.target.value ? Number(e.target.value) : undefined })}
+                >
+                  <option value="">Any distance</option>
+                  {RADIUS_OPTIONS.map((radius) => (
+                    <option key={radius} value={radius}>Within {radius} km</option>
+                  ))}
+                </select>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleUseMyLocation}
+                  disabled={isLocating}
+                  title="Use my current location"
+                >
+                  <Crosshair className="h-4 w-4" />
+                </Button>
+              </div>
+              {draft.nearLatitude !== undefined && draft.nearLongitude !== undefined && (
+                <p className="text-xs text-gray-500">
+                  From {draft.nearLatitude.toFixed(4)}, {draft.nearLongitude.toFixed(4)}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={() => setShowAdvanced(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">Apply filters</Button>
+          </div>
+        </form>
+      )}
+
+      {activeCount > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {chips.map((chip) => (
+            <Badge key={chip.label} variant="secondary" className="flex items-center gap-1">
+              {chip.label}
+              <button
+                type="button"
+                onClick={() => onChange(chip.clear)}
+                className="ml-1 rounded-full hover:bg-gray-300"
+                aria-label={`Remove filter ${chip.label}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          <Button variant="link" size="sm" className="h-auto p-0" onClick={onClear}>
+            Clear all filters
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IncidentFilters;
@@ -0,0 +1,106 @@
+import React from 'react';
+import {
+  DEFAULT_SORT,
+  SORT_DIRECTION_LABELS,
+  SORT_FIELDS,
+  SORT_FIELD_LABELS,
+  SortKey,
+  parseSort,
+  toSort,
+} from '@/lib/incident-sort';
+import { IncidentSort, IncidentSortField, SortDirection } from '@/types';
+import { ArrowUpDown } from 'lucide-react';
+
+interface IncidentSortControlsProps {
+  sort?: IncidentSort[];
+  onChange: (sort: IncidentSort[] | undefined) => void;
+}
+
+// Dates read best newest first and severity most severe first; status follows the workflow
+const DEFAULT_DIRECTIONS: Record<IncidentSortField, SortDirection> = {
+  reportedAt: 'desc',
+  updatedAt: 'desc',
+  severity: 'desc',
+  status: 'asc',
+};
+
+const selectClassName = 'px-2 py-1.5 border rounded-md text-sm bg-white';
+
+// Primary sort key plus an optional secondary ("then by") key. Sorting happens on the server,
+// so it applies across every page, not just the one on screen.
+const IncidentSortControls: React.FC<IncidentSortControlsProps> = ({ sort, onChange }) => {
+  const keys = (sort && sort.length > 0 ? sort : DEFAULT_SORT)
+    .map(parseSort)
+    .filter((key): key is SortKey => key !== null);
+  const [primary, secondary] = keys;
+
+  const update = (next: (SortKey | undefined)[]) => {
+    const value = next
+      .filter((key): key is SortKey => !!key)
+      .map((key) => toSort(key.field, key.direction));
+    // The default order is left out of the URL
+    const isDefault = value.length === DEFAULT_SORT.length && value.every((item, index) => item === DEFAULT_SORT[index]);
+    onChange(isDefault ? undefined : value);
+  };
+
+  const withField = (field: IncidentSortField): SortKey => ({ field, direction: DEFAULT_DIRECTIONS[field] });
+
+  const handlePrimaryField = (field: IncidentSortField) => {
+    // Promoting the secondary field to primary leaves nothing useful to sort by second
+    update([withField(field), secondary?.field === field ? undefined : secondary]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+      <ArrowUpDown className="h-4 w-4" />
+      <label htmlFor="sort-primary">Sort by</label>
+      <select
+        id="sort-primary"
+        className={selectClassName}
+        value={primary.field}
+        onChange={(e) => handlePrimaryField(e.target.value as IncidentSortField)}
+      >
+        {SORT_FIELDS.map((field) => (
+          <option key={field} value={field}>{SORT_FIELD_LABELS[field]}</option>
+        ))}
+      </select>
+      <select
+        aria-label="Primary sort direction"
+        className={selectClassName}
+        value={primary.direction}
+        onChange={(e) => update([{ ...primary, direction: e.target.value as SortDirection }, secondary])}
+      >
+        {Object.entries(SORT_DIRECTION_LABELS[primary.field]).map(([direction, label]) => (
+          <option key={direction} value={direction}>{label}</option>
+        ))}
+      </select>
+
+      <label htmlFor="sort-secondary">then by</label>
+      <select
+        id="sort-secondary"
+        className={selectClassName}
+        value={secondary?.field ?? ''}
+        onChange={(e) => update([primary, e.target.value ? withField(e.target.value as IncidentSortField) : undefined])}
+      >
+        <option value="">Nothing</option>
+        {SORT_FIELDS.filter((field) => field !== primary.field).map((field) => (
+          <option key={field} value={field}>{SORT_FIELD_LABELS[field]}</option>
+        ))}
+      </select>
+      {secondary && (
+        <select
+          aria-label="Secondary sort direction"
+          className={selectClassName}
+          value={secondary.direction}
+          onChange={(e) => update([primary, { ...secondary, direction: e.target.value as SortDirection }])}
+        >
+          {Object.entries(SORT_DIRECTION_LABELS[secondary.field]).map(([direction, label]) => (
+            <option key={direction} value={direction}>{label}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default IncidentSortControls;
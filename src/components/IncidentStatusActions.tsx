@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { incidentsApi } from '@/api/incidents';
+import { applyApiErrors } from '@/lib/form-errors';
+import { NOTE_MIN_LENGTH, STATUS_LABELS, StatusTransition, getBlockedReason, getTransitions } from '@/lib/incident-workflow';
+import { IncidentDetail } from '@/types';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle, ArrowRight, Lock } from 'lucide-react';
+
+interface IncidentStatusActionsProps {
+  incident: IncidentDetail;
+}
+
+const noteSchema = z.object({
+  note: z.string().trim().min(NOTE_MIN_LENGTH, `Please write at least ${NOTE_MIN_LENGTH} characters`),
+});
+
+type NoteFormData = z.infer<typeof noteSchema>;
+
+// The next steps the workflow allows from the incident's current status. Steps that need a
+// note open a dialog for it; steps whose requirements aren't met are shown disabled with the reason.
+const IncidentStatusActions: React.FC<IncidentStatusActionsProps> = ({ incident }) => {
+  const queryClient = useQueryClient();
+  const [pendingTransition, setPendingTransition] = useState<StatusTransition | null>(null);
+
+  const form = useForm<NoteFormData>({
+    resolver: zodResolver(noteSchema),
+    defaultValues: {
+      note: '',
+    },
+  });
+
+  const closeDialog = () => {
+    setPendingTransition(null);
+    form.reset();
+  };
+
+  const updateStatusMutation = useMutation({
+    mutationFn: ({ transition, note }: { transition: StatusTransition; note?: string }) =>
+      incidentsApi.updateStatus(incident.id, transition.to, note),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['incident', incident.id] });
+      queryClient.invalidateQueries({ queryKey: ['incidents'] });
+      closeDialog();
+    },
+    onError: (error: Error, { transition }) => {
+      if (transition.note) {
+        applyApiErrors(form, error);
+      }
+    },
+  });
+
+  const startTransition = (transition: StatusTransition) => {
+    updateStatusMutation.reset();
+    if (transition.note) {
+      setPendingTransition(transition);
+    } else {
+      updateStatusMutation.mutate({ transition });
+    }
+  };
+
+  const transitions = getTransitions(incident.status);
+  // Errors from steps with a note are shown in the dialog instead
+  const inlineError = updateStatusMutation.error && !updateStatusMutation.variables?.transition.note
+    ? updateStatusMutation.error
+    : null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-600">
+        Current status: <span className="font-medium text-gray-900">{STATUS_LABELS[incident.status]}</span>
+      </p>
+
+      {inlineError && (
+        <div className="flex items-center space-x-2 text-red-600 text-sm">
+          <AlertTriangle className="h-4 w-4" />
+          <span>{inlineError.message}</span>
+        </div>
+      )}
+
+      {transitions.length === 0 ? (
+        <p className="flex items-center text-sm text-gray-500">
+          <Lock className="h-4 w-4 mr-2" />
+          This incident is {STATUS_LABELS[incident.status].toLowerCase()}; its status can no longer change.
+        </p>
+      ) : (
+        transitions.map((transition) => {
+          const blockedReason = getBlockedReason(incident, transition);
+          const isSaving = updateStatusMutation.isPending && updateStatusMutation.variables?.transition === transition;
+
+          return (
+            <div key={transition.to}>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full justify-between"
+                onClick={() => startTransition(transition)}
+                disabled={!!blockedReason || updateStatusMutation.isPending}
+              >
+                <span>{isSaving ? 'Updating...' : transition.action}</span>
+                <span className="flex items-center text-xs text-gray-500">
+                  <ArrowRight className="h-3 w-3 mr-1" />
+                  {STATUS_LABELS[transition.to]}
+                </span>
+              </Button>
+              {blockedReason && <p className="text-xs text-gray-500 mt-1">{blockedReason}</p>}
+            </div>
+          );
+        })
+      )}
+
+      <AlertDialog open={!!pendingTransition} onOpenChange={(open) => !open && !updateStatusMutation.isPending && closeDialog()}>
+        <AlertDialogContent>
+          {pendingTransition?.note && (
+            <form
+              onSubmit={form.handleSubmit(({ note }) => updateStatusMutation.mutate({ transition: pendingTransition, note }))}
+              className="space-y-4"
+            >
+              <AlertDialogHeader>
+                <AlertDialogTitle>
+                  {pendingTransition.action}: {STATUS_LABELS[incident.status]} → {STATUS_LABELS[pendingTransition.to]}
+                </AlertDialogTitle>
+                <AlertDialogDescription>
+                  The note is saved with the status change and shown in the incident's activity.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+
+              {form.formState.errors.root && (
+                <div className="flex items-center space-x-2 text-red-600 text-sm">
+                  <AlertTriangle className="h-4 w-4" />
+                  <span>{form.formState.errors.root.message}</span>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="status-note">{pendingTransition.note.label}</Label>
+                <Textarea
+                  id="status-note"
+                  placeholder={pendingTransition.note.placeholder}
+                  {...form.register('note')}
+                />
+                {form.formState.errors.note && (
+                  <p className="text-sm text-red-600">{form.formState.errors.note.message}</p>
+                )}
+              </div>
+
+              <AlertDialogFooter>
+                <AlertDialogCancel type="button" disabled={updateStatusMutation.isPending}>
+                  Cancel
+                </AlertDialogCancel>
+                <Button type="submit" disabled={updateStatusMutation.isPending}>
+                  {updateStatusMutation.isPending ? 'Updating...' : `Move to ${STATUS_LABELS[pendingTransition.to]}`}
+                </Button>
+              </AlertDialogFooter>
+            </form>
+          )}
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default IncidentStatusActions;
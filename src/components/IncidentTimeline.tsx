@@ -0,0 +1,147 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { incidentsApi } from '@/api/incidents';
+import { IncidentFieldChange, IncidentHistoryAction, IncidentHistoryEntry } from '@/types';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertTriangle,
+  ArchiveRestore,
+  Brain,
+  CheckCircle,
+  Eye,
+  FileText,
+  History,
+  Image,
+  Pencil,
+  PlusCircle,
+  RefreshCw,
+  Trash2,
+  UserMinus,
+  UserPlus,
+} from 'lucide-react';
+
+interface IncidentTimelineProps {
+  incidentId: string;
+}
+
+const ACTIONS: Record<IncidentHistoryAction, { label: string; icon: React.ElementType; color: string }> = {
+  CREATED: { label: 'reported the incident', icon: PlusCircle, color: 'bg-blue-100 text-blue-700' },
+  UPDATED: { label: 'edited the incident', icon: Pencil, color: 'bg-gray-100 text-gray-700' },
+  STATUS_CHANGED: { label: 'changed the status', icon: RefreshCw, color: 'bg-yellow-100 text-yellow-700' },
+  ASSIGNED: { label: 'assigned the incident', icon: UserPlus, color: 'bg-indigo-100 text-indigo-700' },
+  UNASSIGNED: { label: 'removed the assignee', icon: UserMinus, color: 'bg-gray-100 text-gray-700' },
+  MEDIA_UPDATED: { label: 'changed the attachments', icon: Image, color: 'bg-gray-100 text-gray-700' },
+  RCA_GENERATED: { label: 'generated AI RCA suggestions', icon: Brain, color: 'bg-purple-100 text-purple-700' },
+  RCA_REVIEWED: { label: 'reviewed the RCA suggestions', icon: Eye, color: 'bg-purple-100 text-purple-700' },
+  RCA_APPROVED: { label: 'approved the RCA suggestions', icon: CheckCircle, color: 'bg-green-100 text-green-700' },
+  RCA_REPORT_CREATED: { label: 'completed the RCA report', icon: FileText, color: 'bg-green-100 text-green-700' },
+  DELETED: { label: 'deleted the incident', icon: Trash2, color: 'bg-red-100 text-red-700' },
+  RESTORED: { label: 'restored the incident', icon: ArchiveRestore, color: 'bg-green-100 text-green-700' },
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  severity: 'Severity',
+  status: 'Status',
+  assignedTo: 'Assignee',
+  locationDescription: 'Location description',
+  location: 'Map location',
+  imageUrls: 'Photos',
+  audioUrls: 'Audio recordings',
+};
+
+// Enum values read better as words ("IN_PROGRESS" -> "In Progress")
+const formatValue = (change: IncidentFieldChange, value?: string) => {
+  if (!value) return 'none';
+  if (change.field === 'status' || change.field === 'severity') {
+    return value
+      .split('_')
+      .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
+      .join(' ');
+  }
+  return value;
+};
+
+const ChangeRow: React.FC<{ change: IncidentFieldChange }> = ({ change }) => (
+  <li className="text-xs text-gray-600">
+    <span className="font-medium text-gray-700">{FIELD_LABELS[change.field] ?? change.field}:</span>{' '}
+    {change.oldValue !== undefined && (
+      <>
+        <span className="line-through text-gray-400 break-words">{formatValue(change, change.oldValue)}</span>
+        {' → '}
+      </>
+    )}
+    <span className="text-gray-900 break-words">{formatValue(change, change.newValue)}</span>
+  </li>
+);
+
+const TimelineEntry: React.FC<{ entry: IncidentHistoryEntry; isLast: boolean }> = ({ entry, isLast }) => {
+  const { label, icon: Icon, color } = ACTIONS[entry.action];
+
+  return (
+    <li className="relative flex gap-3 pb-6">
+      {!isLast && <span className="absolute left-4 top-8 -ml-px h-full w-0.5 bg-gray-200" aria-hidden="true" />}
+      <span className={`relative flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full ${color}`}>
+        <Icon className="h-4 w-4" />
+      </span>
+      <div className="min-w-0 flex-1 pt-1">
+        <p className="text-sm text-gray-700">
+          <span className="font-medium text-gray-900">{entry.actorName}</span> {label}
+        </p>
+        <time dateTime={entry.occurredAt} className="text-xs text-gray-500">
+          {new Date(entry.occurredAt).toLocaleString()}
+        </time>
+        {entry.changes.length > 0 && (
+          <ul className="mt-2 space-y-1">
+            {entry.changes.map((change) => (
+              <ChangeRow key={change.field} change={change} />
+            ))}
+          </ul>
+        )}
+        {entry.reason && <p className="mt-2 text-xs text-gray-600 italic">"{entry.reason}"</p>}
+      </div>
+    </li>
+  );
+};
+
+// Chronological feed of everything that has happened to an incident
+const IncidentTimeline: React.FC<IncidentTimelineProps> = ({ incidentId }) => {
+  const { data: history = [], isLoading, error } = useQuery({
+    queryKey: ['incident', incidentId, 'history'],
+    queryFn: () => incidentsApi.getHistory(incidentId),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <History className="h-5 w-5 mr-2" />
+          Activity
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : error ? (
+          <div className="flex items-center space-x-2 text-red-600 text-sm">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{error.message}</span>
+          </div>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-gray-500">No activity has been recorded for this incident yet.</p>
+        ) : (
+          <ol>
+            {history.map((entry, index) => (
+              <TimelineEntry key={entry.id} entry={entry} isLast={index === history.length - 1} />
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default IncidentTimeline;
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { incidentsApi } from '@/api/incidents';
+import { IncidentQueryParams } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Clock, RotateCcw, Search, Trash2, User } from 'lucide-react';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysUntil = (date: string) => Math.max(Math.ceil((new Date(date).getTime() - Date.now()) / DAY_MS), 0);
+
+// Deleted incidents that can still be restored, newest deletion first
+const IncidentTrash: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [queryParams, setQueryParams] = useState<IncidentQueryParams>({ page: 0, size: 10 });
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const { data: trash, isLoading, error } = useQuery({
+    queryKey: ['incidents', 'trash', queryParams],
+    queryFn: () => incidentsApi.getTrashedIncidents(queryParams),
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (id: string) => incidentsApi.restoreIncident(id),
+    onSuccess: (incident) => {
+      queryClient.invalidateQueries({ queryKey: ['incidents'] });
+      queryClient.invalidateQueries({ queryKey: ['incident', incident.id] });
+      queryClient.invalidateQueries({ queryKey: ['metrics'] });
+    },
+  });
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQueryParams(prev => ({ ...prev, search: searchTerm || undefined, page: 0 }));
+  };
+
+  const handlePageChange = (newPage: number) => {
+    setQueryParams(prev => ({ ...prev, page: newPage }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSearch} className="flex">
+        <Input
+          placeholder="Search deleted incidents..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="flex-1"
+        />
+        <Button type="submit" className="ml-2">
+          <Search className="h-4 w-4" />
+        </Button>
+      </form>
+
+      {(error || restoreMutation.error) && (
+        <div className="flex items-center space-x-2 text-red-600 text-sm bg-red-50 p-3 rounded-md">
+          <AlertTriangle className="h-4 w-4" />
+          <span>{(error || restoreMutation.error)?.message}</span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : trash?.content.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Trash2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Trash is empty</h3>
+            <p className="text-gray-600">
+              {queryParams.search
+                ? 'No deleted incidents match your search.'
+                : 'Deleted incidents appear here until they are permanently removed.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {trash?.content.map((incident) => {
+            const daysLeft = daysUntil(incident.purgeAt);
+
+            return (
+              <Card key={incident.id}>
+                <CardContent className="p-6">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-2">
+                        <Badge className="bg-gray-100 text-gray-800">{incident.severity}</Badge>
+                        <Badge className={daysLeft <= 7 ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-800'}>
+                          {daysLeft === 0 ? 'Deleted permanently today' : `Deleted permanently in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`}
+                        </Badge>
+                      </div>
+
+                      <h3 className="text-lg font-semibold text-gray-900 mb-2">{incident.title}</h3>
+
+                      <p className="text-sm text-gray-700 mb-3">
+                        <span className="font-medium">Reason:</span> {incident.deletionReason}
+                      </p>
+
+                      <div className="flex items-center text-sm text-gray-500 space-x-4">
+                        <div className="flex items-center">
+                          <User className="h-4 w-4 mr-1" />
+                          Deleted by {incident.deletedBy}
+                        </div>
+                        <div className="flex items-center">
+                          <Clock className="h-4 w-4 mr-1" />
+                          {new Date(incident.deletedAt).toLocaleString()}
+                        </div>
+                      </div>
+                    </div>
+
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="ml-4"
+                      onClick={() => restoreMutation.mutate(incident.id)}
+                      disabled={restoreMutation.isPending}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      {restoreMutation.isPending && restoreMutation.variables === incident.id ? 'Restoring...' : 'Restore'}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          {trash && trash.totalPages > 1 && (
+            <div className="flex justify-center items-center space-x-2 mt-6">
+              <Button
+                variant="outline"
+                onClick={() => handlePageChange(queryParams.page! - 1)}
+                disabled={trash.first}
+              >
+                Previous
+              </Button>
+
+              <span className="text-sm text-gray-600">
+                Page {(queryParams.page || 0) + 1} of {trash.totalPages}
+              </span>
+
+              <Button
+                variant="outline"
+                onClick={() => handlePageChange(queryParams.page! + 1)}
+                disabled={trash.last}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default IncidentTrash;
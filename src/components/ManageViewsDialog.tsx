@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { savedViewsApi } from '@/api/saved-views';
+import { useAuth } from '@/contexts/AuthContext';
+import { IncidentListLayout, SavedView, SavedViewPreferencesRequest } from '@/types';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/use-toast';
+import SaveViewDialog from '@/components/SaveViewDialog';
+import { Pencil, Pin, PinOff, Star, Trash2 } from 'lucide-react';
+
+interface ManageViewsDialogProps {
+  views: SavedView[];
+  // The filters and layout on screen, offered when editing a view
+  query: string;
+  layout: IncidentListLayout;
+  onOpenView: (view: SavedView) => void;
+  // The button that opens the dialog
+  children: React.ReactNode;
+}
+
+// Every view the manager can use: their own, which they can edit, share and delete, and the ones
+// others have shared, which they can only pin or make their default
+const ManageViewsDialog: React.FC<ManageViewsDialogProps> = ({ views, query, layout, onOpenView, children }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+
+  const preferencesMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: SavedViewPreferencesRequest }) =>
+      savedViewsApi.updatePreferences(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not update the view', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (view: SavedView) => savedViewsApi.deleteView(view.id),
+    onSuccess: (_, view) => {
+      setConfirmingDeleteId(null);
+      queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+      toast({ title: `Deleted "${view.name}"` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not delete the view', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const handleOpenChange = (value: boolean) => {
+    setConfirmingDeleteId(null);
+    setOpen(value);
+  };
+
+  const handleOpenView = (view: SavedView) => {
+    setOpen(false);
+    onOpenView(view);
+  };
+
+  const isBusy = preferencesMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger asChild>{children}</AlertDialogTrigger>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Saved views</AlertDialogTitle>
+          <AlertDialogDescription>
+            Pinned views show as tabs above the incident list. Your default view opens when you visit the dashboard.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {views.length === 0 ? (
+          <p className="py-6 text-center text-sm text-gray-600">
+            No saved views yet. Set up the filters you use most and choose "Save view".
+          </p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto divide-y border rounded-md">
+            {views.map((view) => {
+              const isOwn = view.owner.email === user?.email;
+              return (
+                <li key={view.id} className="flex items-center justify-between gap-3 p-3">
+                  <div className="min-w-0">
+                    <button
+                      type="button"
+                      className="font-medium text-gray-900 hover:underline truncate text-left"
+                      onClick={() => handleOpenView(view)}
+                    >
+                      {view.name}
+                    </button>
+                    <div className="flex flex-wrap items-center gap-1 mt-1 text-xs text-gray-500">
+                      {view.isDefault && <Badge className="bg-yellow-100 text-yellow-800">Default</Badge>}
+                      {isOwn
+                        ? view.shared && <Badge className="bg-blue-100 text-blue-800">Shared</Badge>
+                        : <span>Shared by {view.owner.name}</span>}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title={view.pinned ? 'Unpin' : 'Pin as a tab'}
+                      disabled={isBusy}
+                      onClick={() => preferencesMutation.mutate({ id: view.id, data: { pinned: !view.pinned } })}
+                    >
+                      {view.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title={view.isDefault ? 'Stop opening this view by default' : 'Open this view by default'}
+                      disabled={isBusy}
+                      onClick={() => preferencesMutation.mutate({ id: view.id, data: { isDefault: !view.isDefault } })}
+                    >
+                      <Star className={`h-4 w-4 ${view.isDefault ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+                    </Button>
+                    {isOwn && (
+                      <>
+                        <SaveViewDialog query={query} layout={layout} view={view}>
+                          <Button variant="ghost" size="sm" title="Edit" disabled={isBusy}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        </SaveViewDialog>
+                        {confirmingDeleteId === view.id ? (
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            disabled={isBusy}
+                            onClick={() => deleteMutation.mutate(view)}
+                          >
+                            {deleteMutation.isPending ? 'Deleting...' : view.shared ? 'Delete for everyone' : 'Delete'}
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Delete"
+                            className="text-red-600"
+                            disabled={isBusy}
+                            onClick={() => setConfirmingDeleteId(view.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel type="button">Close</AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ManageViewsDialog;
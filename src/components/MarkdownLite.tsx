@@ -0,0 +1,110 @@
+import React from 'react';
+
+interface MarkdownLiteProps {
+  text: string;
+  // Display names to highlight when they follow an @
+  mentionNames?: string[];
+  className?: string;
+}
+
+// **bold**, *italic*, `code`, [label](https://...) and bare http(s) links
+const INLINE_SOURCE = String.raw`\*\*([^*]+)\*\*|\*([^*\s][^*]*)\*|` + '`([^`]+)`' + String.raw`|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)|(https?:\/\/[^\s<]+[^\s<.,;:!?)])`;
+
+const LIST_ITEM = /^\s*[-*]\s+(.*)$/;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const renderInline = (text: string, mentionNames: string[], keyPrefix: string): React.ReactNode[] => {
+  // Longest names first so "@Sam Okafor-Lee" isn't cut short by "@Sam Okafor"
+  const mentions = [...mentionNames].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const mentionSource = mentions.length > 0 ? `@(${mentions.join('|')})|` : '';
+  const pattern = new RegExp(mentionSource + INLINE_SOURCE, 'g');
+  const offset = mentions.length > 0 ? 1 : 0;
+
+  const nodes: React.ReactNode[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      nodes.push(text.slice(lastIndex, match.index));
+    }
+    const key = `${keyPrefix}-${match.index}`;
+    const [, ...groups] = match;
+    const [mention] = offset ? groups : [undefined];
+    const [bold, italic, code, linkLabel, linkUrl, bareUrl] = groups.slice(offset);
+
+    if (mention) {
+      nodes.push(
+        <span key={key} className="rounded bg-blue-50 px-1 font-medium text-blue-700">
+          @{mention}
+        </span>
+      );
+    } else if (bold) {
+      nodes.push(<strong key={key}>{renderInline(bold, mentionNames, key)}</strong>);
+    } else if (italic) {
+      nodes.push(<em key={key}>{renderInline(italic, mentionNames, key)}</em>);
+    } else if (code) {
+      nodes.push(
+        <code key={key} className="rounded bg-gray-100 px-1 py-0.5 font-mono text-xs">
+          {code}
+        </code>
+      );
+    } else {
+      const href = linkUrl ?? bareUrl;
+      nodes.push(
+        <a key={key} href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline break-all">
+          {linkLabel ?? bareUrl}
+        </a>
+      );
+    }
+    lastIndex = pattern.lastIndex;
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push(text.slice(lastIndex));
+  }
+  return nodes;
+};
+
+// A small, safe subset of markdown for user-written text. Everything is rendered as React
+// elements, never as HTML, so comments can't inject markup.
+const MarkdownLite: React.FC<MarkdownLiteProps> = ({ text, mentionNames = [], className = '' }) => {
+  const blocks: React.ReactNode[] = [];
+  let listItems: string[] = [];
+
+  const flushList = () => {
+    if (listItems.length === 0) return;
+    const key = `list-${blocks.length}`;
+    blocks.push(
+      <ul key={key} className="list-disc pl-5 space-y-0.5">
+        {listItems.map((item, index) => (
+          <li key={index}>{renderInline(item, mentionNames, `${key}-${index}`)}</li>
+        ))}
+      </ul>
+    );
+    listItems = [];
+  };
+
+  text.split('\n').forEach((line, index) => {
+    const listItem = LIST_ITEM.exec(line);
+    if (listItem) {
+      listItems.push(listItem[1]);
+      return;
+    }
+
+    flushList();
+    if (line.trim()) {
+      blocks.push(
+        <p key={`line-${index}`} className="whitespace-pre-wrap break-words">
+          {renderInline(line, mentionNames, `line-${index}`)}
+        </p>
+      );
+    }
+  });
+  flushList();
+
+  return <div className={`space-y-1 text-sm text-gray-800 ${className}`}>{blocks}</div>;
+};
+
+export default MarkdownLite;
@@ -0,0 +1,42 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { getRateLimitState, subscribeRateLimit } from '@/lib/rate-limit';
+import { formatRemaining } from '@/lib/utils';
+import { Hourglass } from 'lucide-react';
+
+const RateLimitBanner: React.FC = () => {
+  const { retryAt, remaining, queuedRequests } = useSyncExternalStore(subscribeRateLimit, getRateLimitState);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!retryAt) return;
+
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [retryAt]);
+
+  if (!retryAt && queuedRequests === 0) {
+    return null;
+  }
+
+  const queuedLabel = `${queuedRequests} ${queuedRequests === 1 ? 'change is' : 'changes are'} waiting to be sent`;
+
+  return (
+    <div className="sticky top-0 z-50 bg-orange-50 border-b border-orange-200 text-orange-800">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center text-sm">
+        <Hourglass className="h-4 w-4 mr-2" />
+        {retryAt ? (
+          <span>
+            Too many requests - SafeSnap will try again in {formatRemaining(retryAt - now)}
+            {remaining !== null && ` (${remaining} requests left in this window)`}.
+            {queuedRequests > 0 && ` ${queuedLabel} and nothing will be lost.`}
+          </span>
+        ) : (
+          <span>Sending queued changes... {queuedLabel}.</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RateLimitBanner;
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { savedViewsApi } from '@/api/saved-views';
+import { applyApiErrors } from '@/lib/form-errors';
+import { IncidentListLayout, SavedView } from '@/types';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/components/ui/use-toast';
+import { AlertTriangle } from 'lucide-react';
+
+const saveViewSchema = z.object({
+  name: z.string().trim().min(1, 'Give the view a name').max(60, 'Names can be at most 60 characters'),
+  shared: z.boolean(),
+  pinned: z.boolean(),
+  isDefault: z.boolean(),
+  replaceFilters: z.boolean(),
+});
+
+type SaveViewFormData = z.infer<typeof saveViewSchema>;
+
+interface SaveViewDialogProps {
+  // The filters (as a saved view query) and layout on screen right now
+  query: string;
+  layout: IncidentListLayout;
+  // Edit this view instead of creating a new one; its filters are only replaced if asked to
+  view?: SavedView;
+  // The button that opens the dialog
+  children: React.ReactNode;
+  onSaved?: (view: SavedView) => void;
+}
+
+const checkboxClassName = 'h-4 w-4 rounded border-gray-300';
+
+// Names the current filters, sort, page size and layout as a view, or renames and re-shares an existing one
+const SaveViewDialog: React.FC<SaveViewDialogProps> = ({ query, layout, view, children, onSaved }) => {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+
+  const defaultValues: SaveViewFormData = {
+    name: view?.name ?? '',
+    shared: view?.shared ?? false,
+    pinned: view?.pinned ?? true,
+    isDefault: view?.isDefault ?? false,
+    replaceFilters: false,
+  };
+
+  const form = useForm<SaveViewFormData>({
+    resolver: zodResolver(saveViewSchema),
+    defaultValues,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: ({ name, shared, pinned, isDefault, replaceFilters }: SaveViewFormData) =>
+      view
+        ? savedViewsApi.updateView(view.id, { name, shared, ...(replaceFilters ? { query, layout } : {}) })
+        : savedViewsApi.createView({ name, query, layout, shared, pinned, isDefault }),
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+      toast({ title: view ? `Updated "${saved.name}"` : `Saved "${saved.name}"` });
+      setOpen(false);
+      onSaved?.(saved);
+    },
+    onError: (error: Error) => {
+      applyApiErrors(form, error);
+    },
+  });
+
+  const handleOpenChange = (value: boolean) => {
+    if (saveMutation.isPending) return;
+    // Reset on open as well, so editing picks up changes made since the dialog was last used
+    form.reset(defaultValues);
+    setOpen(value);
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogTrigger asChild>{children}</AlertDialogTrigger>
+      <AlertDialogContent>
+        <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{view ? 'Edit view' : 'Save view'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {view
+                ? 'Rename the view or change who can see it.'
+                : 'Saves the current filters, sort order, page size and layout so you can come back to them in one click.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {form.formState.errors.root && (
+            <div className="flex items-center space-x-2 text-red-600 text-sm">
+              <AlertTriangle className="h-4 w-4" />
+              <span>{form.formState.errors.root.message}</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="view-name">Name</Label>
+            <Input id="view-name" placeholder="e.g. Critical open unassigned" {...form.register('name')} />
+            {form.formState.errors.name && (
+              <p className="text-sm text-red-600">{form.formState.errors.name.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2 text-sm text-gray-700">
+            {view ? (
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" className={checkboxClassName} {...form.register('replaceFilters')} />
+                Replace its filters with the ones on screen now
+              </label>
+            ) : (
+              <>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" className={checkboxClassName} {...form.register('pinned')} />
+                  Pin as a tab
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input type="checkbox" className={checkboxClassName} {...form.register('isDefault')} />
+                  Open this view when I visit the dashboard
+                </label>
+              </>
+            )}
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" className={checkboxClassName} {...form.register('shared')} />
+              Share with other managers
+            </label>
+          </div>
+
+          <AlertDialogFooter>
+            <AlertDialogCancel type="button" disabled={saveMutation.isPending}>
+              Cancel
+            </AlertDialogCancel>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? 'Saving...' : view ? 'Save changes' : 'Save view'}
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default SaveViewDialog;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { incidentsApi } from '@/api/incidents';
+import { savedViewsApi } from '@/api/saved-views';
+import { isViewActive, parseViewQuery, toViewQuery } from '@/lib/saved-views';
+import { IncidentListLayout, IncidentQueryParams, SavedView } from '@/types';
+import { Button } from '@/components/ui/button';
+import ManageViewsDialog from '@/components/ManageViewsDialog';
+import SaveViewDialog from '@/components/SaveViewDialog';
+import { AlertTriangle, BookmarkPlus, Settings2, Share2, Star } from 'lucide-react';
+
+type ViewTarget = Pick<SavedView, 'query' | 'layout'>;
+
+interface SavedViewTabsProps {
+  params: IncidentQueryParams;
+  layout: IncidentListLayout;
+  onOpenView: (view: ViewTarget) => void;
+}
+
+// Tab counts are refreshed in the background so the morning triage numbers stay current
+const COUNT_REFRESH_MS = 60_000;
+
+// Pinned saved views as tabs, each with a live count of the incidents it matches, plus saving
+// the current filters as a new view
+const SavedViewTabs: React.FC<SavedViewTabsProps> = ({ params, layout, onOpenView }) => {
+  const currentQuery = toViewQuery(params);
+
+  const { data: views = [], error } = useQuery({
+    queryKey: ['saved-views'],
+    queryFn: () => savedViewsApi.getViews(),
+  });
+
+  const tabs: (SavedView | null)[] = [null, ...views.filter((view) => view.pinned)];
+
+  // Only totalElements is needed, so each tab asks for a single row
+  const counts = useQueries({
+    queries: tabs.map((view) => {
+      const countParams = { ...parseViewQuery(view?.query ?? ''), page: 0, size: 1 };
+      return {
+        queryKey: ['incidents', 'all', countParams],
+        queryFn: () => incidentsApi.getAllIncidents(countParams),
+        select: (page: { totalElements: number }) => page.totalElements,
+        refetchInterval: COUNT_REFRESH_MS,
+      };
+    }),
+  });
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+      <div className="flex flex-wrap items-center gap-2" role="tablist" aria-label="Saved views">
+        {tabs.map((view, index) => {
+          const isActive = view ? isViewActive(view, params) : currentQuery === '';
+          const count = counts[index]?.data;
+          return (
+            <Button
+              key={view?.id ?? 'all'}
+              role="tab"
+              aria-selected={isActive}
+              variant={isActive ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onOpenView(view ?? { query: '', layout })}
+            >
+              {view?.isDefault && <Star className="h-3 w-3 mr-1 fill-current" />}
+              {view?.shared && <Share2 className="h-3 w-3 mr-1" />}
+              {view?.name ?? 'All incidents'}
+              <span
+                className={`ml-2 rounded-full px-2 text-xs ${isActive ? 'bg-white/20' : 'bg-gray-100 text-gray-700'}`}
+              >
+                {count ?? '…'}
+              </span>
+            </Button>
+          );
+        })}
+        {error && (
+          <span className="flex items-center text-sm text-red-600">
+            <AlertTriangle className="h-4 w-4 mr-1" />
+            Saved views could not be loaded
+          </span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <SaveViewDialog query={currentQuery} layout={layout}>
+          <Button variant="outline" size="sm">
+            <BookmarkPlus className="h-4 w-4 mr-2" />
+            Save view
+          </Button>
+        </SaveViewDialog>
+        <ManageViewsDialog views={views} query={currentQuery} layout={layout} onOpenView={onOpenView}>
+          <Button variant="ghost" size="sm">
+            <Settings2 className="h-4 w-4 mr-2" />
+            Manage views
+          </Button>
+        </ManageViewsDialog>
+      </div>
+    </div>
+  );
+};
+
+export default SavedViewTabs;
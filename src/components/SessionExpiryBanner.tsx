@@ -0,0 +1,34 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatRemaining } from '@/lib/utils';
+import { Clock } from 'lucide-react';
+
+const SessionExpiryBanner: React.FC = () => {
+  const { isSessionExpiring, sessionExpiresAt } = useAuth();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!isSessionExpiring) return;
+
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [isSessionExpiring]);
+
+  if (!isSessionExpiring || !sessionExpiresAt) {
+    return null;
+  }
+
+  return (
+    <div className="sticky top-0 z-50 bg-yellow-50 border-b border-yellow-200 text-yellow-800">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center text-sm">
+        <Clock className="h-4 w-4 mr-2" />
+        <span>
+          Your session expires in {formatRemaining(sessionExpiresAt - now)}. Save your work - you will need to sign in again.
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default SessionExpiryBanner;
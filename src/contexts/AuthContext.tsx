@@ -1,12 +1,51 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { User } from '@/types';
+import { refreshSession } from '@/api/client';
+import { getTokenExpiry, getUserFromToken, isTokenExpired } from '@/lib/jwt';
+import {
+  broadcastSession,
+  clearStoredSession,
+  getStoredRefreshToken,
+  getStoredToken,
+  getLastActivity,
+  getStoredUser,
+  onSessionBroadcast,
+  onSessionEvent,
+  recordActivity,
+  storeSession,
+} from '@/lib/session';
+
+// Log out slightly before the token actually expires so no request goes out with a dead token
+const EXPIRY_SKEW_MS = 30 * 1000;
+// Refresh (or, without a refresh token, show the warning banner) this long before the automatic logout
+const EXPIRY_WARNING_MS = 2 * 60 * 1000;
+
+// Longer setTimeout delays (about 24.8 days) overflow and fire immediately
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Inactivity logout for shared PCs; VITE_IDLE_TIMEOUT_MINUTES=0 disables it
+const readNumberEnv = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value ?? fallback);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+const IDLE_TIMEOUT_MS = readNumberEnv(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES, 30) * 60 * 1000;
+const IDLE_WARNING_MS = readNumberEnv(import.meta.env.VITE_IDLE_WARNING_SECONDS, 60) * 1000;
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart'] as const;
+// Don't hit localStorage on every mouse move
+const ACTIVITY_THROTTLE_MS = 5 * 1000;
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
-  login: (token: string, user: User) => void;
+  login: (token: string, user: User, refreshToken?: string) => void;
   logout: () => void;
   isAuthenticated: boolean;
+  sessionExpiresAt: number | null;
+  isSessionExpiring: boolean;
+  idleSecondsRemaining: number | null;
+  stayActive: () => void;
+  pauseIdleTimeout: () => () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -22,51 +61,209 @@ export const useAuth = () => {
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [sessionExpiresAt, setSessionExpiresAt] = useState<number | null>(null);
+  // Bumped to re-arm the expiry timers for tokens that expire too far ahead to schedule in one go
+  const [expiryCheck, setExpiryCheck] = useState(0);
+  const [isSessionExpiring, setIsSessionExpiring] = useState(false);
+  const [idleSecondsRemaining, setIdleSecondsRemaining] = useState<number | null>(null);
+  const queryClient = useQueryClient();
+  const idlePauseCount = useRef(0);
+  const isIdleWarningShown = useRef(false);
+  // Mirrors `user` so session handlers registered once can tell whether the identity changed
+  const userRef = useRef<User | null>(null);
+
+  // Apply a new identity; cached server data belongs to the previous user, so drop it on any change.
+  // The email identifies the user, since the token may not carry a numeric id.
+  const applyUser = useCallback((nextUser: User | null) => {
+    if (userRef.current?.email !== nextUser?.email) {
+      queryClient.clear();
+    }
+    userRef.current = nextUser;
+    setUser(nextUser);
+  }, [queryClient]);
 
   useEffect(() => {
     // Check for stored auth data on mount
-    const storedToken = localStorage.getItem('safesnap_token');
-    const storedUser = localStorage.getItem('safesnap_user');
-
-    if (storedToken && storedUser) {
-      try {
-        const userData = JSON.parse(storedUser);
-        // Validate that the parsed user data has required properties
-        if (userData && typeof userData === 'object' && userData.id && userData.email && userData.role) {
+    const storedToken = getStoredToken();
+
+    if (storedToken) {
+      // An expired access token is still usable if we hold a refresh token - the API client renews it on first 401
+      if (isTokenExpired(storedToken, EXPIRY_SKEW_MS) && !getStoredRefreshToken()) {
+        clearStoredSession();
+      } else {
+        // The token is the source of truth for identity; the stored user only fills in gaps
+        const userData = getUserFromToken(storedToken, getStoredUser());
+        if (userData) {
+          userRef.current = userData;
           setUser(userData);
+          setSessionExpiresAt(getTokenExpiry(storedToken));
         } else {
-          console.error('Invalid stored user data format:', userData);
-          localStorage.removeItem('safesnap_token');
-          localStorage.removeItem('safesnap_user');
+          clearStoredSession();
         }
-      } catch (error) {
-        console.error('Error parsing stored user data:', error);
-        localStorage.removeItem('safesnap_token');
-        localStorage.removeItem('safesnap_user');
       }
     }
 
     setIsLoading(false);
   }, []);
 
-  const login = (token: string, userData: User) => {
-    localStorage.setItem('safesnap_token', token);
-    localStorage.setItem('safesnap_user', JSON.stringify(userData));
-    setUser(userData);
+  const login = (token: string, userData: User, refreshToken?: string) => {
+    storeSession(token, refreshToken, userData);
+    applyUser(userData);
+    setSessionExpiresAt(getTokenExpiry(token));
+    broadcastSession({ type: 'login', user: userData });
   };
 
-  const logout = () => {
-    localStorage.removeItem('safesnap_token');
-    localStorage.removeItem('safesnap_user');
-    setUser(null);
-  };
+  const logout = useCallback(() => {
+    clearStoredSession();
+    applyUser(null);
+    setSessionExpiresAt(null);
+    broadcastSession({ type: 'logout' });
+  }, [applyUser]);
+
+  const applyRefreshedToken = useCallback((token: string) => {
+    const current = userRef.current;
+    applyUser(getUserFromToken(token, current ?? getStoredUser()) ?? current);
+    setSessionExpiresAt(getTokenExpiry(token));
+  }, [applyUser]);
+
+  // Keep in sync with token refreshes and failed refreshes done by the API client
+  useEffect(() => {
+    return onSessionEvent((event) => {
+      if (event.type === 'refreshed') {
+        applyRefreshedToken(event.token);
+      } else {
+        applyUser(null);
+        setSessionExpiresAt(null);
+      }
+    });
+  }, [applyUser, applyRefreshedToken]);
+
+  // Follow logins, logouts, user switches and refreshes from other tabs (and other providers in this one)
+  useEffect(() => {
+    return onSessionBroadcast((message) => {
+      if (message.type === 'login') {
+        const token = getStoredToken();
+        applyUser(message.user);
+        setSessionExpiresAt(token ? getTokenExpiry(token) : null);
+      } else if (message.type === 'refreshed') {
+        applyRefreshedToken(message.token);
+      } else {
+        applyUser(null);
+        setSessionExpiresAt(null);
+      }
+    });
+  }, [applyUser, applyRefreshedToken]);
+
+  // Shortly before the token expires try a silent refresh; if that isn't possible warn, then log out
+  useEffect(() => {
+    setIsSessionExpiring(false);
+    if (!sessionExpiresAt) return;
+
+    const logoutAt = sessionExpiresAt - EXPIRY_SKEW_MS;
+    const now = Date.now();
+    if (logoutAt <= now) {
+      if (getStoredRefreshToken()) {
+        refreshSession().catch(logout);
+      } else {
+        logout();
+      }
+      return;
+    }
+
+    if (logoutAt - now > MAX_TIMER_DELAY_MS) {
+      const rearmTimer = window.setTimeout(() => setExpiryCheck((count) => count + 1), MAX_TIMER_DELAY_MS);
+      return () => window.clearTimeout(rearmTimer);
+    }
+
+    const warningTimer = window.setTimeout(() => {
+      // Another tab may already have refreshed the shared token
+      const storedToken = getStoredToken();
+      const storedExpiry = storedToken ? getTokenExpiry(storedToken) : null;
+      if (storedExpiry && storedExpiry > sessionExpiresAt) {
+        setSessionExpiresAt(storedExpiry);
+      } else if (getStoredRefreshToken()) {
+        refreshSession().catch(() => setIsSessionExpiring(true));
+      } else {
+        setIsSessionExpiring(true);
+      }
+    }, Math.max(logoutAt - EXPIRY_WARNING_MS - now, 0));
+    const logoutTimer = window.setTimeout(logout, logoutAt - now);
+
+    return () => {
+      window.clearTimeout(warningTimer);
+      window.clearTimeout(logoutTimer);
+    };
+  }, [sessionExpiresAt, expiryCheck, logout]);
+
+  const stayActive = useCallback(() => {
+    recordActivity();
+    isIdleWarningShown.current = false;
+    setIdleSecondsRemaining(null);
+  }, []);
+
+  const pauseIdleTimeout = useCallback(() => {
+    idlePauseCount.current += 1;
+    return () => {
+      idlePauseCount.current -= 1;
+      recordActivity();
+    };
+  }, []);
+
+  const isSignedIn = !!user;
+
+  // Track inactivity, show a countdown before the idle logout and log out when it runs out
+  useEffect(() => {
+    if (!isSignedIn || IDLE_TIMEOUT_MS <= 0) return;
+
+    recordActivity();
+    let lastRecordedAt = Date.now();
+
+    const handleActivity = () => {
+      // Once the warning is up the user has to confirm explicitly
+      if (isIdleWarningShown.current) return;
+      const now = Date.now();
+      if (now - lastRecordedAt > ACTIVITY_THROTTLE_MS) {
+        lastRecordedAt = now;
+        recordActivity(now);
+      }
+    };
+
+    const interval = window.setInterval(() => {
+      if (idlePauseCount.current > 0) {
+        recordActivity();
+      }
+
+      const remaining = IDLE_TIMEOUT_MS - (Date.now() - getLastActivity());
+      if (remaining <= 0) {
+        logout();
+        return;
+      }
+
+      isIdleWarningShown.current = remaining <= IDLE_WARNING_MS;
+      setIdleSecondsRemaining(isIdleWarningShown.current ? Math.ceil(remaining / 1000) : null);
+    }, 1000);
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+
+    return () => {
+      window.clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+      isIdleWarningShown.current = false;
+      setIdleSecondsRemaining(null);
+    };
+  }, [isSignedIn, logout]);
 
   const value = {
     user,
     isLoading,
     login,
     logout,
-    isAuthenticated: !!user && !!localStorage.getItem('safesnap_token'),
+    isAuthenticated: !!user && !!getStoredToken(),
+    sessionExpiresAt: sessionExpiresAt ? sessionExpiresAt - EXPIRY_SKEW_MS : null,
+    isSessionExpiring,
+    idleSecondsRemaining,
+    stayActive,
+    pauseIdleTimeout,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
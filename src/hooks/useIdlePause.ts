@@ -0,0 +1,12 @@
+import { useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Keeps the idle timeout from firing while `paused` is true, e.g. during a file upload
+export const useIdlePause = (paused: boolean) => {
+  const { pauseIdleTimeout } = useAuth();
+
+  useEffect(() => {
+    if (!paused) return;
+    return pauseIdleTimeout();
+  }, [paused, pauseIdleTimeout]);
+};
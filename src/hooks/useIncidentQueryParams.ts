@@ -0,0 +1,38 @@
+import { useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  DEFAULT_PAGE_SIZE,
+  isIncidentQueryKey,
+  parseIncidentQueryParams,
+  toIncidentSearchParams,
+} from '@/lib/incident-filters';
+import { IncidentQueryParams } from '@/types';
+
+// Incident list filters kept in the URL query string, so a filtered view survives a refresh
+// and can be bookmarked or shared. Changing a filter goes back to the first page.
+export const useIncidentQueryParams = (defaultSize = DEFAULT_PAGE_SIZE) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const params = useMemo(
+    () => parseIncidentQueryParams(searchParams, defaultSize),
+    [searchParams, defaultSize]
+  );
+
+  const update = (next: IncidentQueryParams) => {
+    setSearchParams((current) => {
+      const updated = toIncidentSearchParams(next, defaultSize);
+      // Keep page settings that aren't filters, e.g. the list layout
+      current.forEach((value, key) => {
+        if (!isIncidentQueryKey(key)) updated.append(key, value);
+      });
+      return updated;
+    });
+  };
+
+  return {
+    params,
+    setFilters: (filters: Partial<IncidentQueryParams>) => update({ ...params, ...filters, page: 0 }),
+    setPage: (page: number) => update({ ...params, page }),
+    clearFilters: () => update({ page: 0, size: params.size }),
+  };
+};
@@ -0,0 +1,9 @@
+import { useAuth } from '@/contexts/AuthContext';
+import { Permission, hasPermission } from '@/lib/permissions';
+
+// True when the signed-in user has every one of the given permissions
+export const usePermission = (permission: Permission | Permission[]): boolean => {
+  const { user } = useAuth();
+  const required = Array.isArray(permission) ? permission : [permission];
+  return required.every((item) => hasPermission(user, item));
+};
@@ -0,0 +1,67 @@
+import { incidentsApi } from '@/api/incidents';
+import { IncidentListItem, IncidentQueryParams } from '@/types';
+
+export type BulkOutcome = 'succeeded' | 'failed' | 'skipped';
+
+export interface BulkItemResult {
+  id: string;
+  title: string;
+  outcome: BulkOutcome;
+  message?: string;
+}
+
+// Thrown from a bulk step to leave an incident untouched without counting it as a failure
+export class BulkSkip extends Error {}
+
+const FETCH_ALL_PAGE_SIZE = 100;
+
+// Runs the step for one incident at a time so the backend isn't flooded and progress can be
+// reported. One incident failing never stops the rest.
+export const runBulk = async (
+  incidents: IncidentListItem[],
+  step: (incident: IncidentListItem) => Promise<unknown>,
+  onProgress?: (done: number) => void
+): Promise<BulkItemResult[]> => {
+  const results: BulkItemResult[] = [];
+
+  for (const incident of incidents) {
+    const result: BulkItemResult = { id: incident.id, title: incident.title, outcome: 'succeeded' };
+    try {
+      await step(incident);
+    } catch (error) {
+      result.outcome = error instanceof BulkSkip ? 'skipped' : 'failed';
+      result.message = error instanceof Error ? error.message : 'Something went wrong';
+    }
+    results.push(result);
+    onProgress?.(results.length);
+  }
+  return results;
+};
+
+export const countOutcomes = (results: BulkItemResult[]): Record<BulkOutcome, number> => {
+  const counts: Record<BulkOutcome, number> = { succeeded: 0, failed: 0, skipped: 0 };
+  results.forEach((result) => {
+    counts[result.outcome] += 1;
+  });
+  return counts;
+};
+
+// Every incident matching the filters, not just the page on screen (params' page and size are
+// ignored). Reports progress after each page.
+export const fetchAllMatchingIncidents = async (
+  params: IncidentQueryParams,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<IncidentListItem[]> => {
+  const incidents: IncidentListItem[] = [];
+  let page = 0;
+
+  for (;;) {
+    const response = await incidentsApi.getAllIncidents({ ...params, page, size: FETCH_ALL_PAGE_SIZE });
+    incidents.push(...response.content);
+    onProgress?.(incidents.length, response.totalElements);
+    if (response.last || response.content.length === 0) {
+      return incidents;
+    }
+    page += 1;
+  }
+};
@@ -0,0 +1,7 @@
+// Feature switches read from Vite environment variables
+
+// Open self-signup is opt-in; without it registration needs an invite link
+export const isSelfSignupEnabled = import.meta.env.VITE_ALLOW_SELF_SIGNUP === 'true';
+
+// Serve every API call from the in-browser mock backend (src/api/mock) instead of the Spring API
+export const isMockApiEnabled = import.meta.env.VITE_USE_MOCK_API === 'true';
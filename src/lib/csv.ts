@@ -0,0 +1,40 @@
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+}
+
+// Spreadsheets run text starting with these as a formula
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+// Text typed by users (titles, names, RCA notes) is defused with a leading quote so e.g.
+// "=HYPERLINK(...)" shows as text in Excel. Numbers are left alone, negative ones included.
+const neutralizeFormula = (value: string | number | null | undefined): string => {
+  if (value == null) return '';
+  return typeof value === 'string' && FORMULA_TRIGGER.test(value) ? `'${value}` : String(value);
+};
+
+// Quote a cell when it contains a delimiter, quote or line break (RFC 4180)
+const escapeCell = (value: string | number | null | undefined): string => {
+  const text = neutralizeFormula(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]): string => {
+  const lines = [
+    columns.map((column) => escapeCell(column.header)).join(','),
+    ...rows.map((row) => columns.map((column) => escapeCell(column.value(row))).join(',')),
+  ];
+  return lines.join('\r\n');
+};
+
+// Hand a generated file to the browser as a download
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,41 @@
+import { FieldValues, Path, UseFormReturn } from 'react-hook-form';
+import { isSafeSnapApiError } from '@/api/errors';
+
+// Show a failed mutation on a react-hook-form form: backend validation messages go next to
+// the matching input, anything that doesn't belong to a field goes to the root error banner.
+// `fieldMap` renames backend field names that differ from the form's (e.g. newPassword -> password).
+export const applyApiErrors = <T extends FieldValues>(
+  form: UseFormReturn<T>,
+  error: Error,
+  fieldMap: Record<string, Path<T>> = {}
+) => {
+  if (!isSafeSnapApiError(error) || !error.hasValidationErrors) {
+    form.setError('root', { message: error.message });
+    return;
+  }
+
+  const formFields = new Set([
+    ...Object.keys(form.formState.defaultValues ?? {}),
+    ...Object.keys(form.getValues()),
+  ]);
+  const unmatched: string[] = [];
+  let firstField: Path<T> | null = null;
+
+  for (const [field, message] of Object.entries(error.validationErrors)) {
+    const target = fieldMap[field] ?? field;
+    if (formFields.has(target)) {
+      form.setError(target as Path<T>, { type: 'server', message });
+      firstField = firstField ?? (target as Path<T>);
+    } else {
+      unmatched.push(message);
+    }
+  }
+
+  if (unmatched.length > 0 || !firstField) {
+    form.setError('root', { message: unmatched.length > 0 ? unmatched.join(' ') : error.message });
+  }
+
+  if (firstField) {
+    form.setFocus(firstField);
+  }
+};
@@ -0,0 +1,57 @@
+import { InfiniteData } from '@tanstack/react-query';
+import { STATUS_LABELS, validateTransition } from '@/lib/incident-workflow';
+import { omit } from '@/lib/utils';
+import { IncidentListItem, IncidentListResponse, IncidentQueryParams, IncidentStatus } from '@/types';
+
+// The board shows one column per status, in workflow order. Each column pages on its own, so
+// a long OPEN backlog only costs one page until someone scrolls it.
+export const BOARD_STATUSES = Object.keys(STATUS_LABELS) as IncidentStatus[];
+
+export const BOARD_PAGE_SIZE = 20;
+
+export type BoardColumnData = InfiniteData<IncidentListResponse, number>;
+
+// The list filters every column shares; each column sets its own status and pages
+export const toBoardFilters = (params: IncidentQueryParams): IncidentQueryParams => omit(params, ['page', 'size', 'status']);
+
+export const boardColumnKey = (status: IncidentStatus, filters: IncidentQueryParams) =>
+  ['incidents', 'board', status, filters] as const;
+
+// Why a card can't be dropped on a column, or null when the move is allowed (it may still need a note)
+export const getMoveRejection = (
+  incident: Pick<IncidentListItem, 'status' | 'rcaReport' | 'rcaAiSuggestions'>,
+  to: IncidentStatus
+): string | null => {
+  return validateTransition(incident, to)?.status ?? null;
+};
+
+// Optimistic cache updates for a move. Every page carries the column total, so all of them change.
+export const removeFromColumn = (data: BoardColumnData | undefined, id: string): BoardColumnData | undefined => {
+  if (!data || !data.pages.some((page) => page.content.some((incident) => incident.id === id))) {
+    return data;
+  }
+  return {
+    ...data,
+    pages: data.pages.map((page) => ({
+      ...page,
+      content: page.content.filter((incident) => incident.id !== id),
+      totalElements: page.totalElements - 1,
+    })),
+  };
+};
+
+// The card goes to the top of the column until the refetch puts it where the sort order says
+export const addToColumn = (
+  data: BoardColumnData | undefined,
+  incident: IncidentListItem
+): BoardColumnData | undefined => {
+  if (!data) return data;
+  return {
+    ...data,
+    pages: data.pages.map((page, index) => ({
+      ...page,
+      content: index === 0 ? [incident, ...page.content] : page.content,
+      totalElements: page.totalElements + 1,
+    })),
+  };
+};
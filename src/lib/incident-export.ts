@@ -0,0 +1,143 @@
+import { CsvColumn, toCsv } from '@/lib/csv';
+import { STATUS_LABELS } from '@/lib/incident-workflow';
+import { IncidentListItem } from '@/types';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportColumnGroup = 'Incident' | 'Location' | 'Assignment' | 'Root Cause Analysis';
+
+export interface ExportColumn extends CsvColumn<IncidentListItem> {
+  id: string;
+  group: ExportColumnGroup;
+  // Spreadsheet column width in characters
+  width: number;
+  defaultSelected?: boolean;
+}
+
+const COLUMNS_KEY = 'safesnap_export_columns';
+
+const rcaStatus = (incident: IncidentListItem): string => {
+  if (incident.rcaReport) return 'Complete';
+  if (incident.rcaAiSuggestions) return `AI suggestions ${incident.rcaAiSuggestions.status.toLowerCase()}`;
+  return 'Not started';
+};
+
+export const INCIDENT_EXPORT_COLUMNS: ExportColumn[] = [
+  { id: 'id', header: 'ID', group: 'Incident', width: 8, defaultSelected: true, value: (incident) => incident.id },
+  { id: 'title', header: 'Title', group: 'Incident', width: 40, defaultSelected: true, value: (incident) => incident.title },
+  { id: 'description', header: 'Description', group: 'Incident', width: 60, value: (incident) => incident.description },
+  { id: 'severity', header: 'Severity', group: 'Incident', width: 10, defaultSelected: true, value: (incident) => incident.severity },
+  {
+    id: 'status',
+    header: 'Status',
+    group: 'Incident',
+    width: 14,
+    defaultSelected: true,
+    value: (incident) => STATUS_LABELS[incident.status],
+  },
+  { id: 'reportedBy', header: 'Reported By', group: 'Incident', width: 20, defaultSelected: true, value: (incident) => incident.reportedBy },
+  { id: 'reportedByEmail', header: 'Reporter Email', group: 'Incident', width: 28, value: (incident) => incident.reportedByEmail },
+  { id: 'reportedAt', header: 'Reported At', group: 'Incident', width: 22, defaultSelected: true, value: (incident) => incident.reportedAt },
+  { id: 'updatedAt', header: 'Last Updated', group: 'Incident', width: 22, value: (incident) => incident.updatedAt },
+  { id: 'photos', header: 'Photos', group: 'Incident', width: 8, value: (incident) => incident.imageUrls.length },
+  { id: 'voiceNotes', header: 'Voice Notes', group: 'Incident', width: 8, value: (incident) => incident.audioUrls.length },
+  {
+    id: 'location',
+    header: 'Location',
+    group: 'Location',
+    width: 30,
+    defaultSelected: true,
+    value: (incident) => incident.locationDescription,
+  },
+  { id: 'latitude', header: 'Latitude', group: 'Location', width: 12, value: (incident) => incident.latitude },
+  { id: 'longitude', header: 'Longitude', group: 'Location', width: 12, value: (incident) => incident.longitude },
+  { id: 'assignedTo', header: 'Assigned To', group: 'Assignment', width: 20, defaultSelected: true, value: (incident) => incident.assignedTo },
+  { id: 'assignedToEmail', header: 'Assignee Email', group: 'Assignment', width: 28, value: (incident) => incident.assignedToEmail },
+  { id: 'rcaStatus', header: 'RCA Status', group: 'Root Cause Analysis', width: 22, defaultSelected: true, value: rcaStatus },
+  {
+    id: 'fiveWhys',
+    header: 'Five Whys',
+    group: 'Root Cause Analysis',
+    width: 60,
+    value: (incident) => incident.rcaReport?.fiveWhys ?? incident.rcaAiSuggestions?.suggestedFiveWhys,
+  },
+  {
+    id: 'correctiveAction',
+    header: 'Corrective Action',
+    group: 'Root Cause Analysis',
+    width: 50,
+    value: (incident) => incident.rcaReport?.correctiveAction ?? incident.rcaAiSuggestions?.suggestedCorrectiveAction,
+  },
+  {
+    id: 'preventiveAction',
+    header: 'Preventive Action',
+    group: 'Root Cause Analysis',
+    width: 50,
+    value: (incident) => incident.rcaReport?.preventiveAction ?? incident.rcaAiSuggestions?.suggestedPreventiveAction,
+  },
+  {
+    id: 'rcaCompletedBy',
+    header: 'RCA Completed By',
+    group: 'Root Cause Analysis',
+    width: 20,
+    value: (incident) => incident.rcaReport?.manager?.name,
+  },
+  {
+    id: 'rcaCompletedAt',
+    header: 'RCA Completed At',
+    group: 'Root Cause Analysis',
+    width: 22,
+    value: (incident) => incident.rcaReport?.createdAt,
+  },
+];
+
+export const DEFAULT_EXPORT_COLUMN_IDS = INCIDENT_EXPORT_COLUMNS
+  .filter((column) => column.defaultSelected)
+  .map((column) => column.id);
+
+// Columns chosen for the last export, so the monthly register comes out the same way each time
+export const getSavedExportColumnIds = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(COLUMNS_KEY) || '[]');
+    const known = Array.isArray(saved) ? saved.filter((id) => INCIDENT_EXPORT_COLUMNS.some((column) => column.id === id)) : [];
+    return known.length > 0 ? known : DEFAULT_EXPORT_COLUMN_IDS;
+  } catch {
+    return DEFAULT_EXPORT_COLUMN_IDS;
+  }
+};
+
+export const saveExportColumnIds = (ids: string[]): void => {
+  localStorage.setItem(COLUMNS_KEY, JSON.stringify(ids));
+};
+
+// Keeps the order of INCIDENT_EXPORT_COLUMNS whatever order the ids were picked in
+export const getExportColumns = (ids: string[]): ExportColumn[] => {
+  return INCIDENT_EXPORT_COLUMNS.filter((column) => ids.includes(column.id));
+};
+
+export const exportFilename = (format: ExportFormat, date = new Date()): string => {
+  return `incident-register-${date.toISOString().slice(0, 10)}.${format}`;
+};
+
+// Builds the file in the browser. The spreadsheet writer is only loaded when a spreadsheet is actually requested.
+export const buildIncidentExport = async (
+  incidents: IncidentListItem[],
+  columns: ExportColumn[],
+  format: ExportFormat
+): Promise<Blob> => {
+  if (format === 'csv') {
+    // The byte order mark makes Excel read the file as UTF-8
+    return new Blob(['\uFEFF', toCsv(incidents, columns)], { type: 'text/csv;charset=utf-8' });
+  }
+
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  // Text is written as plain string cells, never as formulas
+  const rows = incidents.map((incident) => columns.map((column) => column.value(incident) ?? null));
+  const header = columns.map((column) => ({ value: column.header, fontWeight: 'bold' as const }));
+
+  return writeXlsxFile([header, ...rows], {
+    sheet: 'Incidents',
+    columns: columns.map((column) => ({ width: column.width })),
+    stickyRowsCount: 1,
+  }).toBlob();
+};
@@ -0,0 +1,126 @@
+import { SortKey, parseSort, toSort } from '@/lib/incident-sort';
+import { IncidentQueryParams, IncidentSeverity, IncidentStatus, RcaSuggestionStatus } from '@/types';
+
+// Assignee filter value that matches incidents nobody is assigned to
+export const UNASSIGNED = 'none';
+
+export const DEFAULT_PAGE_SIZE = 10;
+
+const STATUSES: IncidentStatus[] = ['OPEN', 'IN_PROGRESS', 'UNDER_REVIEW', 'RESOLVED', 'CLOSED', 'CANCELLED'];
+const SEVERITIES: IncidentSeverity[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+const RCA_STATUSES: RcaSuggestionStatus[] = ['GENERATED', 'REVIEWED', 'APPROVED'];
+
+const TEXT_FILTERS = ['search', 'reporter', 'assignee', 'imageTag', 'location'] as const;
+const DATE_FILTERS = ['reportedFrom', 'reportedTo'] as const;
+const NUMBER_FILTERS = ['nearLatitude', 'nearLongitude', 'radiusKm'] as const;
+
+// Every query string key the filters own; anything else on the page, like the list layout, is left alone
+const QUERY_KEYS: string[] = [
+  'page',
+  'size',
+  'status',
+  'severity',
+  'rcaStatus',
+  'hasRca',
+  'sort',
+  ...TEXT_FILTERS,
+  ...DATE_FILTERS,
+  ...NUMBER_FILTERS,
+];
+
+export const isIncidentQueryKey = (key: string): boolean => QUERY_KEYS.includes(key);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const oneOf = <T extends string>(values: T[], value: string | null): T | undefined => {
+  return values.find((item) => item === value);
+};
+
+const toNumber = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// Reads the filters from the query string. Anything malformed is dropped rather than sent to
+// the API, so an old bookmark or a hand-edited link still opens a working page.
+export const parseIncidentQueryParams = (
+  searchParams: URLSearchParams,
+  defaultSize = DEFAULT_PAGE_SIZE
+): IncidentQueryParams => {
+  // Pages are 1-based in the URL, as users see them
+  const page = toNumber(searchParams.get('page'));
+  const size = toNumber(searchParams.get('size'));
+  const params: IncidentQueryParams = {
+    page: page && page >= 1 ? Math.floor(page) - 1 : 0,
+    size: size && size >= 1 ? Math.floor(size) : defaultSize,
+    status: oneOf(STATUSES, searchParams.get('status')),
+    severity: oneOf(SEVERITIES, searchParams.get('severity')),
+    rcaStatus: oneOf(RCA_STATUSES, searchParams.get('rcaStatus')),
+  };
+
+  TEXT_FILTERS.forEach((key) => {
+    const value = searchParams.get(key)?.trim();
+    if (value) params[key] = value;
+  });
+  DATE_FILTERS.forEach((key) => {
+    const value = searchParams.get(key);
+    if (value && DATE_PATTERN.test(value)) params[key] = value;
+  });
+  NUMBER_FILTERS.forEach((key) => {
+    const value = toNumber(searchParams.get(key));
+    if (value !== undefined) params[key] = value;
+  });
+
+  // Repeated like the API's sort parameter: ?sort=severity,desc&sort=reportedAt,asc
+  const sort = searchParams
+    .getAll('sort')
+    .map(parseSort)
+    .filter((key): key is SortKey => key !== null)
+    .map((key) => toSort(key.field, key.direction));
+  if (sort.length > 0) {
+    params.sort = sort;
+  }
+
+  const hasRca = searchParams.get('hasRca');
+  if (hasRca === 'true' || hasRca === 'false') {
+    params.hasRca = hasRca === 'true';
+  }
+
+  // A distance filter is only meaningful with all three parts
+  if (params.nearLatitude === undefined || params.nearLongitude === undefined || !params.radiusKm || params.radiusKm <= 0) {
+    delete params.nearLatitude;
+    delete params.nearLongitude;
+    delete params.radiusKm;
+  }
+
+  return params;
+};
+
+// The query string for a set of filters. Defaults are left out to keep shared links short.
+export const toIncidentSearchParams = (
+  params: IncidentQueryParams,
+  defaultSize = DEFAULT_PAGE_SIZE
+): URLSearchParams => {
+  const searchParams = new URLSearchParams();
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    if (key === 'page') {
+      if (value > 0) searchParams.set('page', String(value + 1));
+    } else if (key === 'size') {
+      if (value !== defaultSize) searchParams.set('size', String(value));
+    } else if (key === 'sort') {
+      (value as string[]).forEach((item) => searchParams.append('sort', item));
+    } else {
+      searchParams.set(key, String(value));
+    }
+  });
+  return searchParams;
+};
+
+// How many filters are applied, not counting paging or sorting; the distance filter counts once (as radiusKm)
+export const countActiveFilters = (params: IncidentQueryParams): number => {
+  const ignored = ['page', 'size', 'sort', 'nearLatitude', 'nearLongitude'];
+  return Object.entries(params).filter(([key, value]) => !ignored.includes(key) && value !== undefined && value !== '').length;
+};
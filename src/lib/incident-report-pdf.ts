@@ -0,0 +1,357 @@
+import type { jsPDF } from 'jspdf';
+import { storageApi } from '@/api/storage';
+import { STATUS_LABELS } from '@/lib/incident-workflow';
+import { renderStaticMap } from '@/lib/static-map';
+import { IncidentDetail, IncidentHistoryEntry, IncidentStatus } from '@/types';
+
+export interface IncidentReportOptions {
+  incident: IncidentDetail;
+  history: IncidentHistoryEntry[];
+  generatedBy?: string;
+}
+
+// A4 in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 15;
+const LINE_HEIGHT = 5;
+
+const BRAND_COLOR: [number, number, number] = [37, 99, 235];
+const TEXT_COLOR: [number, number, number] = [17, 24, 39];
+const MUTED_COLOR: [number, number, number] = [107, 114, 128];
+const RULE_COLOR: [number, number, number] = [229, 231, 235];
+
+const PHOTO_MAX_PIXELS = 1200;
+const MAP_WIDTH = 800;
+const MAP_HEIGHT = 400;
+
+interface PreparedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+const formatDateTime = (value?: string) => (value ? new Date(value).toLocaleString() : '—');
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not read image'));
+    image.src = src;
+  });
+};
+
+// Photos are re-encoded as JPEG at a sensible size: jsPDF can't embed every format the camera
+// produces, and full-resolution photos would make the report needlessly large.
+const prepareImage = async (blob: Blob): Promise<PreparedImage> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const image = await loadImage(url);
+    const scale = Math.min(1, PHOTO_MAX_PIXELS / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not supported in this browser');
+    }
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return { dataUrl: canvas.toDataURL('image/jpeg', 0.85), width: canvas.width, height: canvas.height };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Scale to fit the box without changing the aspect ratio
+const fitInto = (image: PreparedImage, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+  return { width: image.width * scale, height: image.height * scale };
+};
+
+const describeStatusEntry = (entry: IncidentHistoryEntry): string => {
+  if (entry.action === 'CREATED') {
+    return 'Reported (Open)';
+  }
+  const change = entry.changes.find((item) => item.field === 'status');
+  const label = (status?: string) => (status ? STATUS_LABELS[status as IncidentStatus] ?? status : '—');
+  // jsPDF's built-in fonts have no arrow glyph
+  return `${label(change?.oldValue)} to ${label(change?.newValue)}`;
+};
+
+// Keeps track of the vertical position and starts a new page whenever the next block won't fit
+class ReportWriter {
+  y = MARGIN;
+
+  constructor(readonly doc: jsPDF) {}
+
+  ensureSpace(height: number) {
+    if (this.y + height > PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) {
+      this.doc.addPage();
+      this.y = MARGIN + 10;
+    }
+  }
+
+  heading(text: string) {
+    this.ensureSpace(16);
+    this.y += 4;
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(13);
+    this.doc.setTextColor(...BRAND_COLOR);
+    this.doc.text(text, MARGIN, this.y);
+    this.y += 2;
+    this.doc.setDrawColor(...RULE_COLOR);
+    this.doc.line(MARGIN, this.y, PAGE_WIDTH - MARGIN, this.y);
+    this.y += 6;
+  }
+
+  paragraph(text: string, { bold = false, muted = false, size = 10 } = {}) {
+    this.doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(...(muted ? MUTED_COLOR : TEXT_COLOR));
+    const lines: string[] = this.doc.splitTextToSize(text, CONTENT_WIDTH);
+    lines.forEach((line) => {
+      this.ensureSpace(LINE_HEIGHT);
+      this.doc.text(line, MARGIN, this.y);
+      this.y += LINE_HEIGHT;
+    });
+    this.y += 2;
+  }
+
+  fields(rows: [string, string | undefined][]) {
+    const labelWidth = 42;
+    rows.forEach(([label, value]) => {
+      this.doc.setFontSize(10);
+      const lines: string[] = this.doc.splitTextToSize(value || '—', CONTENT_WIDTH - labelWidth);
+      this.ensureSpace(lines.length * LINE_HEIGHT);
+      this.doc.setFont('helvetica', 'bold');
+      this.doc.setTextColor(...MUTED_COLOR);
+      this.doc.text(label, MARGIN, this.y);
+      this.doc.setFont('helvetica', 'normal');
+      this.doc.setTextColor(...TEXT_COLOR);
+      this.doc.text(lines, MARGIN + labelWidth, this.y);
+      this.y += lines.length * LINE_HEIGHT + 1;
+    });
+    this.y += 2;
+  }
+
+  image(image: PreparedImage, maxWidth: number, maxHeight: number) {
+    const size = fitInto(image, maxWidth, maxHeight);
+    this.ensureSpace(size.height);
+    this.doc.addImage(image.dataUrl, 'JPEG', MARGIN, this.y, size.width, size.height);
+    this.y += size.height + 4;
+  }
+
+  // Two photos per row, each with its caption underneath
+  photoGrid(photos: { image: PreparedImage | null; caption: string }[]) {
+    const gap = 6;
+    const cellWidth = (CONTENT_WIDTH - gap) / 2;
+    const cellHeight = 65;
+
+    for (let index = 0; index < photos.length; index += 2) {
+      this.ensureSpace(cellHeight + 8);
+      photos.slice(index, index + 2).forEach(({ image, caption }, column) => {
+        const x = MARGIN + column * (cellWidth + gap);
+        if (image) {
+          const size = fitInto(image, cellWidth, cellHeight);
+          this.doc.addImage(image.dataUrl, 'JPEG', x, this.y, size.width, size.height);
+        } else {
+          this.doc.setFillColor(243, 244, 246);
+          this.doc.rect(x, this.y, cellWidth, cellHeight, 'F');
+          this.doc.setFontSize(9);
+          this.doc.setTextColor(...MUTED_COLOR);
+          this.doc.text('Photo could not be loaded', x + cellWidth / 2, this.y + cellHeight / 2, { align: 'center' });
+        }
+        this.doc.setFont('helvetica', 'normal');
+        this.doc.setFontSize(9);
+        this.doc.setTextColor(...MUTED_COLOR);
+        this.doc.text(caption, x, this.y + cellHeight + 4);
+      });
+      this.y += cellHeight + 9;
+    }
+  }
+
+  table(columns: { header: string; width: number }[], rows: string[][]) {
+    const padding = 1.5;
+    const drawRow = (cells: string[], header: boolean) => {
+      this.doc.setFont('helvetica', header ? 'bold' : 'normal');
+      this.doc.setFontSize(9);
+      const wrapped = cells.map((cell, index): string[] => this.doc.splitTextToSize(cell || '—', columns[index].width - padding * 2));
+      const height = Math.max(...wrapped.map((lines) => lines.length)) * 4.2 + padding * 2;
+
+      this.ensureSpace(height);
+      if (header) {
+        this.doc.setFillColor(243, 244, 246);
+        this.doc.rect(MARGIN, this.y, CONTENT_WIDTH, height, 'F');
+      }
+      this.doc.setTextColor(...(header ? MUTED_COLOR : TEXT_COLOR));
+      let x = MARGIN;
+      wrapped.forEach((lines, index) => {
+        this.doc.text(lines, x + padding, this.y + padding + 3);
+        x += columns[index].width;
+      });
+      this.y += height;
+      this.doc.setDrawColor(...RULE_COLOR);
+      this.doc.line(MARGIN, this.y, PAGE_WIDTH - MARGIN, this.y);
+    };
+
+    drawRow(columns.map((column) => column.header), true);
+    rows.forEach((row) => drawRow(row, false));
+    this.y += 4;
+  }
+}
+
+// Branded header on the first page; a running header and page numbers on every page
+const decoratePages = (doc: jsPDF, incident: IncidentDetail, generatedAt: Date, generatedBy?: string) => {
+  const pageCount = doc.getNumberOfPages();
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED_COLOR);
+
+    if (page > 1) {
+      doc.text(`SafeSnap Incident Report · #${incident.id} ${incident.title}`, MARGIN, MARGIN);
+    }
+
+    const footerY = PAGE_HEIGHT - MARGIN + 5;
+    doc.setDrawColor(...RULE_COLOR);
+    doc.line(MARGIN, footerY - 5, PAGE_WIDTH - MARGIN, footerY - 5);
+    doc.text(
+      `Generated ${generatedAt.toLocaleString()}${generatedBy ? ` by ${generatedBy}` : ''}`,
+      MARGIN,
+      footerY
+    );
+    doc.text(`Page ${page} of ${pageCount}`, PAGE_WIDTH - MARGIN, footerY, { align: 'right' });
+  }
+};
+
+// Builds the formal incident report (for insurers and auditors) entirely in the browser.
+// Photos and the map are fetched while building; any that fail are noted in the report instead.
+export const buildIncidentReportPdf = async ({ incident, history, generatedBy }: IncidentReportOptions): Promise<Blob> => {
+  const { jsPDF } = await import('jspdf');
+  const hasLocation = incident.latitude != null && incident.longitude != null;
+
+  const [map, photos] = await Promise.all([
+    hasLocation
+      ? renderStaticMap(incident.latitude!, incident.longitude!, { width: MAP_WIDTH, height: MAP_HEIGHT })
+          .then((dataUrl): PreparedImage => ({ dataUrl, width: MAP_WIDTH, height: MAP_HEIGHT }))
+          .catch(() => null)
+      : Promise.resolve(null),
+    Promise.all(
+      incident.imageUrls.map((url) => storageApi.getImage(url).then(prepareImage).catch(() => null))
+    ),
+  ]);
+
+  const generatedAt = new Date();
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const writer = new ReportWriter(doc);
+
+  // Title block
+  doc.setFillColor(...BRAND_COLOR);
+  doc.rect(0, 0, PAGE_WIDTH, 28, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.setTextColor(255, 255, 255);
+  doc.text('SafeSnap', MARGIN, 13);
+  doc.setFontSize(12);
+  doc.text('Incident Report', PAGE_WIDTH - MARGIN, 13, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(`Incident #${incident.id}`, MARGIN, 21);
+  doc.text(generatedAt.toLocaleDateString(), PAGE_WIDTH - MARGIN, 21, { align: 'right' });
+  writer.y = 40;
+
+  writer.paragraph(incident.title, { bold: true, size: 16 });
+
+  writer.heading('Overview');
+  writer.fields([
+    ['Severity', incident.severity.charAt(0) + incident.severity.slice(1).toLowerCase()],
+    ['Status', STATUS_LABELS[incident.status]],
+    ['Reported by', `${incident.reportedBy} (${incident.reportedByEmail})`],
+    ['Reported at', formatDateTime(incident.reportedAt)],
+    ['Last updated', incident.updatedAt && `${formatDateTime(incident.updatedAt)}${incident.updatedBy ? ` by ${incident.updatedBy}` : ''}`],
+    ['Assigned to', incident.assignedTo && `${incident.assignedTo}${incident.assignedToEmail ? ` (${incident.assignedToEmail})` : ''}`],
+  ]);
+  writer.paragraph('Description', { bold: true });
+  writer.paragraph(incident.description);
+
+  writer.heading('Location');
+  writer.fields([
+    ['Description', incident.locationDescription],
+    ['Coordinates', hasLocation ? `${incident.latitude!.toFixed(6)}, ${incident.longitude!.toFixed(6)}` : undefined],
+  ]);
+  if (map) {
+    writer.image(map, CONTENT_WIDTH, 90);
+  } else if (hasLocation) {
+    writer.paragraph('The map snapshot could not be loaded.', { muted: true });
+  }
+
+  writer.heading(`Photos (${incident.imageUrls.length})`);
+  if (photos.length > 0) {
+    writer.photoGrid(photos.map((image, index) => ({ image, caption: `Photo ${index + 1}` })));
+  } else {
+    writer.paragraph('No photos were attached.', { muted: true });
+  }
+  writer.paragraph('AI image tags', { bold: true });
+  writer.paragraph(incident.imageTags.length > 0 ? incident.imageTags.join(', ') : 'None', { muted: incident.imageTags.length === 0 });
+
+  writer.heading('Audio Transcriptions');
+  if (incident.transcriptions.length > 0) {
+    incident.transcriptions.forEach((transcription, index) => {
+      writer.paragraph(`Recording ${index + 1}`, { bold: true });
+      writer.paragraph(transcription);
+    });
+  } else {
+    writer.paragraph('No audio transcriptions.', { muted: true });
+  }
+
+  writer.heading('Root Cause Analysis');
+  if (incident.rcaReport) {
+    writer.fields([
+      ['Completed by', incident.rcaReport.manager?.name],
+      ['Completed at', formatDateTime(incident.rcaReport.createdAt)],
+    ]);
+    writer.paragraph('Five Whys', { bold: true });
+    writer.paragraph(incident.rcaReport.fiveWhys);
+    writer.paragraph('Corrective Action', { bold: true });
+    writer.paragraph(incident.rcaReport.correctiveAction);
+    writer.paragraph('Preventive Action', { bold: true });
+    writer.paragraph(incident.rcaReport.preventiveAction);
+  } else {
+    writer.paragraph('No root cause analysis report has been completed for this incident.', { muted: true });
+  }
+
+  writer.heading('Status History');
+  const statusEntries = history.filter((entry) => entry.action === 'CREATED' || entry.action === 'STATUS_CHANGED');
+  if (statusEntries.length > 0) {
+    writer.table(
+      [
+        { header: 'Date', width: 38 },
+        { header: 'Change', width: 48 },
+        { header: 'By', width: 38 },
+        { header: 'Note', width: CONTENT_WIDTH - 124 },
+      ],
+      statusEntries.map((entry) => [
+        formatDateTime(entry.occurredAt),
+        describeStatusEntry(entry),
+        entry.actorName,
+        entry.reason ?? '',
+      ])
+    );
+  } else {
+    writer.paragraph('No status changes recorded.', { muted: true });
+  }
+
+  decoratePages(doc, incident, generatedAt, generatedBy);
+  return doc.output('blob');
+};
+
+export const incidentReportFilename = (incident: Pick<IncidentDetail, 'id'>): string => {
+  return `incident-${incident.id}-report.pdf`;
+};
@@ -0,0 +1,116 @@
+import {
+  IncidentListItem,
+  IncidentSeverity,
+  IncidentSort,
+  IncidentSortField,
+  IncidentStatus,
+  SortDirection,
+} from '@/types';
+
+// Sort options for incident lists. Severity sorts by rank and status by workflow order, not
+// alphabetically; the mock backend uses compareIncidents to do the same.
+export const SORT_FIELDS: IncidentSortField[] = ['reportedAt', 'updatedAt', 'severity', 'status'];
+
+export const SORT_FIELD_LABELS: Record<IncidentSortField, string> = {
+  reportedAt: 'Reported date',
+  updatedAt: 'Last updated',
+  severity: 'Severity',
+  status: 'Status',
+};
+
+// What each direction means for the field, e.g. "Newest first" rather than "Descending"
+export const SORT_DIRECTION_LABELS: Record<IncidentSortField, Record<SortDirection, string>> = {
+  reportedAt: { desc: 'Newest first', asc: 'Oldest first' },
+  updatedAt: { desc: 'Newest first', asc: 'Oldest first' },
+  severity: { desc: 'Most severe first', asc: 'Least severe first' },
+  status: { asc: 'Workflow order', desc: 'Reverse workflow order' },
+};
+
+// The sort property the API is asked for. Spring sorts the severity and status enum columns by
+// name (CRITICAL, HIGH, LOW, MEDIUM), so those go out as the rank properties the list endpoints
+// expose for this (see "Incident list sorting" in the README).
+export const SORT_API_FIELDS: Record<IncidentSortField, string> = {
+  reportedAt: 'reportedAt',
+  updatedAt: 'updatedAt',
+  severity: 'severityRank',
+  status: 'statusRank',
+};
+
+export const DEFAULT_SORT: IncidentSort[] = ['reportedAt,desc'];
+
+export const SEVERITY_RANK: Record<IncidentSeverity, number> = {
+  LOW: 1,
+  MEDIUM: 2,
+  HIGH: 3,
+  CRITICAL: 4,
+};
+
+export const STATUS_RANK: Record<IncidentStatus, number> = {
+  OPEN: 1,
+  IN_PROGRESS: 2,
+  UNDER_REVIEW: 3,
+  RESOLVED: 4,
+  CLOSED: 5,
+  CANCELLED: 6,
+};
+
+export interface SortKey {
+  field: IncidentSortField;
+  direction: SortDirection;
+}
+
+export const parseSort = (value: unknown): SortKey | null => {
+  if (typeof value !== 'string') return null;
+  const [field, direction = 'asc'] = value.split(',');
+  const knownField = SORT_FIELDS.find((item) => item === field);
+  if (!knownField || (direction !== 'asc' && direction !== 'desc')) return null;
+  return { field: knownField, direction };
+};
+
+export const toSort = (field: IncidentSortField, direction: SortDirection): IncidentSort => `${field},${direction}`;
+
+export const toApiSort = (sort: IncidentSort[]): string[] =>
+  sort
+    .map(parseSort)
+    .filter((key): key is SortKey => key !== null)
+    .map((key) => `${SORT_API_FIELDS[key.field]},${key.direction}`);
+
+// The reverse of toApiSort, for the mock backend
+export const fromApiSort = (value: unknown): IncidentSort | null => {
+  if (typeof value !== 'string') return null;
+  const [apiField, direction] = value.split(',');
+  const field = SORT_FIELDS.find((item) => SORT_API_FIELDS[item] === apiField);
+  const key = field ? parseSort(direction ? `${field},${direction}` : field) : null;
+  return key && toSort(key.field, key.direction);
+};
+
+const sortValue = (incident: IncidentListItem, field: IncidentSortField): number | string => {
+  switch (field) {
+    case 'severity':
+      return SEVERITY_RANK[incident.severity];
+    case 'status':
+      return STATUS_RANK[incident.status];
+    case 'updatedAt':
+      // Never-updated incidents count as updated when they were reported
+      return incident.updatedAt ?? incident.reportedAt;
+    default:
+      return incident.reportedAt;
+  }
+};
+
+// Comparator for the given sort keys. Ties fall back to newest reported first so pages stay stable.
+export const compareIncidents = (sort: IncidentSort[]) => {
+  const keys = [...sort, ...DEFAULT_SORT].map(parseSort).filter((key): key is SortKey => key !== null);
+
+  return (a: IncidentListItem, b: IncidentListItem): number => {
+    for (const key of keys) {
+      const left = sortValue(a, key.field);
+      const right = sortValue(b, key.field);
+      if (left !== right) {
+        const order = left < right ? -1 : 1;
+        return key.direction === 'asc' ? order : -order;
+      }
+    }
+    return 0;
+  };
+};
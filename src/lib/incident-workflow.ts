@@ -0,0 +1,104 @@
+import { IncidentListItem, IncidentStatus, ValidationErrors } from '@/types';
+
+// The incident lifecycle as data. Each status lists the statuses it may move to and what a
+// move needs; the detail page only offers these steps and the mock backend enforces the same rules.
+export interface StatusTransition {
+  to: IncidentStatus;
+  // Button text for the step, e.g. "Start work"
+  action: string;
+  // A note is stored with the status change (and shown in the activity timeline)
+  note?: {
+    label: string;
+    placeholder: string;
+  };
+  requiresApprovedRca?: boolean;
+}
+
+export const NOTE_MIN_LENGTH = 10;
+
+export const STATUS_LABELS: Record<IncidentStatus, string> = {
+  OPEN: 'Open',
+  IN_PROGRESS: 'In Progress',
+  UNDER_REVIEW: 'Under Review',
+  RESOLVED: 'Resolved',
+  CLOSED: 'Closed',
+  CANCELLED: 'Cancelled',
+};
+
+const resolve: StatusTransition = {
+  to: 'RESOLVED',
+  action: 'Resolve',
+  note: { label: 'Resolution note', placeholder: 'What was done to fix the hazard?' },
+};
+
+const cancel: StatusTransition = {
+  to: 'CANCELLED',
+  action: 'Cancel incident',
+  note: { label: 'Reason for cancelling', placeholder: 'e.g. Duplicate report, or not a safety issue' },
+};
+
+const reopen = (to: IncidentStatus): StatusTransition => ({
+  to,
+  action: 'Reopen',
+  note: { label: 'Reason for reopening', placeholder: 'What still needs attention?' },
+});
+
+export const INCIDENT_WORKFLOW: Record<IncidentStatus, StatusTransition[]> = {
+  OPEN: [{ to: 'IN_PROGRESS', action: 'Start work' }, cancel],
+  IN_PROGRESS: [{ to: 'UNDER_REVIEW', action: 'Send for review' }, resolve, cancel],
+  UNDER_REVIEW: [
+    resolve,
+    {
+      to: 'IN_PROGRESS',
+      action: 'Return for more work',
+      note: { label: 'What needs more work?', placeholder: 'Explain what the review found' },
+    },
+  ],
+  RESOLVED: [{ to: 'CLOSED', action: 'Close', requiresApprovedRca: true }, reopen('IN_PROGRESS')],
+  CLOSED: [],
+  CANCELLED: [reopen('OPEN')],
+};
+
+// An RCA counts as approved once the report exists or the AI suggestions were approved
+export const hasApprovedRca = (incident: Pick<IncidentListItem, 'rcaReport' | 'rcaAiSuggestions'>): boolean => {
+  return !!incident.rcaReport || incident.rcaAiSuggestions?.status === 'APPROVED';
+};
+
+export const getTransitions = (status: IncidentStatus): StatusTransition[] => INCIDENT_WORKFLOW[status];
+
+export const findTransition = (from: IncidentStatus, to: IncidentStatus): StatusTransition | undefined => {
+  return INCIDENT_WORKFLOW[from].find((transition) => transition.to === to);
+};
+
+// Why a step can't be taken yet, or null when everything it needs is in place (apart from the note)
+export const getBlockedReason = (
+  incident: Pick<IncidentListItem, 'rcaReport' | 'rcaAiSuggestions'>,
+  transition: StatusTransition
+): string | null => {
+  if (transition.requiresApprovedRca && !hasApprovedRca(incident)) {
+    return 'An approved root cause analysis is required before closing';
+  }
+  return null;
+};
+
+// Field errors for a status change, shaped like the backend's validationErrors
+export const validateTransition = (
+  incident: Pick<IncidentListItem, 'status' | 'rcaReport' | 'rcaAiSuggestions'>,
+  to: IncidentStatus,
+  note?: string
+): ValidationErrors | null => {
+  const transition = findTransition(incident.status, to);
+  if (!transition) {
+    return { status: `An incident that is ${STATUS_LABELS[incident.status]} cannot be moved to ${STATUS_LABELS[to]}` };
+  }
+
+  const blockedReason = getBlockedReason(incident, transition);
+  if (blockedReason) {
+    return { status: blockedReason };
+  }
+
+  if (transition.note && (note ?? '').trim().length < NOTE_MIN_LENGTH) {
+    return { note: `${transition.note.label} must be at least ${NOTE_MIN_LENGTH} characters` };
+  }
+  return null;
+};
@@ -0,0 +1,92 @@
+import { User, UserRole } from '@/types';
+
+// Claims we rely on from the backend-issued JWT
+export interface TokenClaims {
+  sub?: string;
+  name?: string;
+  email?: string;
+  userId?: number | string;
+  role?: string;
+  roles?: string[];
+  authorities?: string[];
+  exp?: number;
+  iat?: number;
+}
+
+const USER_ROLES: UserRole[] = ['WORKER', 'SUPERVISOR', 'SAFETY_OFFICER', 'MANAGER', 'ADMIN'];
+
+// Decode the base64url encoded payload segment of a JWT (no signature check - the backend does that)
+export const decodeToken = (token: string): TokenClaims | null => {
+  const segments = token.split('.');
+  if (segments.length !== 3) return null;
+
+  try {
+    const base64 = segments[1].replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+    const json = decodeURIComponent(
+      Array.from(atob(padded), (char) => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`).join('')
+    );
+    const claims = JSON.parse(json);
+    return claims && typeof claims === 'object' ? (claims as TokenClaims) : null;
+  } catch (error) {
+    console.error('Error decoding auth token:', error);
+    return null;
+  }
+};
+
+// Expiry time in epoch milliseconds, or null when the token has no exp claim
+export const getTokenExpiry = (token: string): number | null => {
+  const claims = decodeToken(token);
+  return claims?.exp ? claims.exp * 1000 : null;
+};
+
+export const isTokenExpired = (token: string, skewMs = 0): boolean => {
+  const expiresAt = getTokenExpiry(token);
+  return expiresAt !== null && expiresAt - skewMs <= Date.now();
+};
+
+// Spring Security may emit the role as "ROLE_MANAGER", a plain string or a list of authorities
+const resolveRole = (claims: TokenClaims): UserRole | null => {
+  const candidates = [claims.role, ...(claims.roles || []), ...(claims.authorities || [])];
+
+  for (const candidate of candidates) {
+    if (typeof candidate !== 'string') continue;
+    const role = candidate.replace(/^ROLE_/, '').toUpperCase();
+    if (USER_ROLES.includes(role as UserRole)) {
+      return role as UserRole;
+    }
+  }
+
+  return null;
+};
+
+// Spring puts the email in sub, so most tokens carry no numeric id at all
+const resolveId = (claims: TokenClaims): number | undefined => {
+  const raw = claims.userId ?? claims.sub;
+  const id = typeof raw === 'number' ? raw : Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+};
+
+// Build the signed-in user from token claims. Fallback values are only used for
+// fields the token does not carry (e.g. the name submitted on the register form).
+// Role and email identify the session; the numeric id is optional.
+export const getUserFromToken = (token: string, fallback: Partial<User> = {}): User | null => {
+  const claims = decodeToken(token);
+  if (!claims) return null;
+
+  const id = resolveId(claims) ?? fallback.id;
+  const role = resolveRole(claims) ?? fallback.role;
+  const email = claims.email ?? (claims.sub?.includes('@') ? claims.sub : fallback.email);
+
+  if (!role || !email) {
+    console.error('Auth token is missing identity claims:', claims);
+    return null;
+  }
+
+  return {
+    id,
+    name: claims.name ?? fallback.name ?? email,
+    email,
+    role,
+  };
+};
@@ -0,0 +1,100 @@
+import { User, UserRole } from '@/types';
+
+// Capabilities checked by the UI. Pages ask for a permission, never for a role,
+// so adding a role only means adding a row to ROLE_PERMISSIONS.
+export type Permission =
+  | 'incident.create'
+  | 'incident.edit_own'
+  | 'incident.view_all'
+  | 'incident.update_status'
+  | 'incident.assign'
+  | 'incident.delete'
+  | 'comment.internal'
+  | 'rca.generate'
+  | 'rca.review'
+  | 'rca.approve'
+  | 'metrics.view'
+  | 'user.manage';
+
+const ALL_PERMISSIONS: Permission[] = [
+  'incident.create',
+  'incident.edit_own',
+  'incident.view_all',
+  'incident.update_status',
+  'incident.assign',
+  'incident.delete',
+  'comment.internal',
+  'rca.generate',
+  'rca.review',
+  'rca.approve',
+  'metrics.view',
+  'user.manage',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  WORKER: ['incident.create', 'incident.edit_own'],
+  SUPERVISOR: [
+    'incident.view_all',
+    'incident.update_status',
+    'incident.assign',
+    'comment.internal',
+    'rca.generate',
+    'metrics.view',
+  ],
+  SAFETY_OFFICER: [
+    'incident.view_all',
+    'incident.update_status',
+    'comment.internal',
+    'rca.generate',
+    'rca.review',
+    'rca.approve',
+    'metrics.view',
+  ],
+  MANAGER: [
+    'incident.view_all',
+    'incident.update_status',
+    'incident.assign',
+    'incident.delete',
+    'comment.internal',
+    'rca.generate',
+    'rca.review',
+    'rca.approve',
+    'metrics.view',
+  ],
+  ADMIN: ALL_PERMISSIONS,
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  WORKER: 'Worker',
+  SUPERVISOR: 'Supervisor',
+  SAFETY_OFFICER: 'Safety Officer',
+  MANAGER: 'Manager',
+  ADMIN: 'Admin',
+};
+
+export const hasPermission = (user: User | null | undefined, permission: Permission): boolean => {
+  if (!user) return false;
+  return ROLE_PERMISSIONS[user.role]?.includes(permission) ?? false;
+};
+
+// Landing page after sign-in and target of "Back to Dashboard" links
+export const getHomePath = (user: User | null | undefined): string => {
+  return hasPermission(user, 'incident.view_all') ? '/manager' : '/worker';
+};
+
+// Permission needed for each protected area of the app; keep in sync with the routes in App.tsx
+const PATH_PERMISSIONS: [RegExp, Permission][] = [
+  [/^\/worker\/incidents\/[^/]+\/edit$/, 'incident.edit_own'],
+  [/^\/worker(\/|$)/, 'incident.create'],
+  [/^\/manager(\/|$)/, 'incident.view_all'],
+  [/^\/admin(\/|$)/, 'user.manage'],
+];
+
+// Whether a post-login redirect to `path` is allowed. Only in-app paths of a known protected area qualify.
+export const canAccessPath = (user: User | null | undefined, path: string): boolean => {
+  if (!path.startsWith('/') || path.startsWith('//')) return false;
+
+  const pathname = path.split(/[?#]/)[0];
+  const match = PATH_PERMISSIONS.find(([pattern]) => pattern.test(pathname));
+  return !!match && hasPermission(user, match[1]);
+};
@@ -0,0 +1,79 @@
+import { RateLimitError } from '@/types';
+
+export interface RateLimitState {
+  // Epoch ms when the backend accepts requests again, null when not rate limited
+  retryAt: number | null;
+  remaining: number | null;
+  message: string | null;
+  // Mutations waiting to be sent once the window reopens
+  queuedRequests: number;
+}
+
+type RateLimitListener = () => void;
+
+const listeners = new Set<RateLimitListener>();
+
+let state: RateLimitState = {
+  retryAt: null,
+  remaining: null,
+  message: null,
+  queuedRequests: 0,
+};
+
+let reopenTimer: number | undefined;
+let queueTail: Promise<unknown> = Promise.resolve();
+
+const setState = (patch: Partial<RateLimitState>) => {
+  state = { ...state, ...patch };
+  listeners.forEach((listener) => listener());
+};
+
+// Snapshot for useSyncExternalStore - only replaced when something changes
+export const getRateLimitState = (): RateLimitState => state;
+
+export const subscribeRateLimit = (listener: RateLimitListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const isRateLimited = (): boolean => state.retryAt !== null && state.retryAt > Date.now();
+
+// Record a 429 response. A later retryAt always wins so overlapping 429s can't shorten the wait.
+export const startRateLimit = (error: Partial<RateLimitError>) => {
+  const retryAfterMs = Math.max(Number(error.retryAfterSeconds) || 1, 1) * 1000;
+  const retryAt = Math.max(Date.now() + retryAfterMs, state.retryAt ?? 0);
+
+  setState({
+    retryAt,
+    remaining: typeof error.remaining === 'number' ? error.remaining : null,
+    message: error.message || null,
+  });
+
+  window.clearTimeout(reopenTimer);
+  reopenTimer = window.setTimeout(() => {
+    setState({ retryAt: null, remaining: null, message: null });
+  }, retryAt - Date.now());
+};
+
+// Resolves once the current rate limit window (including any extension) has passed
+export const waitForRateLimit = async (): Promise<void> => {
+  while (isRateLimited()) {
+    const wait = (state.retryAt ?? 0) - Date.now();
+    await new Promise((resolve) => window.setTimeout(resolve, wait));
+  }
+};
+
+// Run rate limited mutations one at a time, in the order they were made, so queued
+// reports are replayed in sequence and none is dropped
+export const enqueueRateLimited = <T>(send: () => Promise<T>): Promise<T> => {
+  setState({ queuedRequests: state.queuedRequests + 1 });
+
+  const result = queueTail.then(send).finally(() => {
+    setState({ queuedRequests: state.queuedRequests - 1 });
+  });
+
+  queueTail = result.catch(() => undefined);
+  return result;
+};
@@ -0,0 +1,19 @@
+import { Location } from 'react-router-dom';
+import { User } from '@/types';
+import { canAccessPath, getHomePath } from '@/lib/permissions';
+
+export interface ReturnToState {
+  from?: string;
+}
+
+// Where the user was headed before being sent to /login: router state from ProtectedRoute,
+// or the returnTo query parameter set by the API client after a failed token refresh
+export const getReturnTo = (location: Location): string | null => {
+  const state = location.state as ReturnToState | null;
+  if (state?.from) return state.from;
+  return new URLSearchParams(location.search).get('returnTo');
+};
+
+export const getPostLoginPath = (user: User | null | undefined, returnTo: string | null): string => {
+  return returnTo && canAccessPath(user, returnTo) ? returnTo : getHomePath(user);
+};
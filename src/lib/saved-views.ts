@@ -0,0 +1,44 @@
+import { DEFAULT_PAGE_SIZE, parseIncidentQueryParams, toIncidentSearchParams } from '@/lib/incident-filters';
+import { IncidentListLayout, IncidentQueryParams, SavedView } from '@/types';
+
+// The list layout lives in the URL next to the filters, so a view opens the way it was saved
+export const LAYOUT_PARAM = 'layout';
+
+export const LAYOUT_LABELS: Record<IncidentListLayout, string> = {
+  list: 'List',
+  compact: 'Compact',
+  board: 'Board',
+};
+
+const LAYOUTS = Object.keys(LAYOUT_LABELS) as IncidentListLayout[];
+
+export const parseLayout = (value: string | null): IncidentListLayout => {
+  return LAYOUTS.find((layout) => layout === value) ?? 'list';
+};
+
+// The stored form of a set of filters: the list's query string without the page number. Keys are
+// sorted so the same filters always give the same string, whatever order they were applied in.
+export const toViewQuery = (params: IncidentQueryParams, defaultSize = DEFAULT_PAGE_SIZE): string => {
+  const searchParams = toIncidentSearchParams({ ...params, page: 0 }, defaultSize);
+  searchParams.sort();
+  return searchParams.toString();
+};
+
+export const parseViewQuery = (query: string, defaultSize = DEFAULT_PAGE_SIZE): IncidentQueryParams => {
+  return parseIncidentQueryParams(new URLSearchParams(query), defaultSize);
+};
+
+// Whether the list is currently showing this view's filters. Parsing first means a view saved
+// with filters this version no longer understands still compares sensibly.
+export const isViewActive = (view: SavedView, params: IncidentQueryParams, defaultSize = DEFAULT_PAGE_SIZE) => {
+  return toViewQuery(parseViewQuery(view.query, defaultSize), defaultSize) === toViewQuery(params, defaultSize);
+};
+
+// The URL query that opens a view, on its first page
+export const toViewSearchParams = (view: Pick<SavedView, 'query' | 'layout'>): URLSearchParams => {
+  const searchParams = new URLSearchParams(view.query);
+  if (view.layout !== 'list') {
+    searchParams.set(LAYOUT_PARAM, view.layout);
+  }
+  return searchParams;
+};
@@ -0,0 +1,108 @@
+import { User } from '@/types';
+
+// localStorage keys for the persisted session
+const TOKEN_KEY = 'safesnap_token';
+const REFRESH_TOKEN_KEY = 'safesnap_refresh_token';
+const USER_KEY = 'safesnap_user';
+// Shared by all tabs so activity in any of them keeps the others from idling out
+const LAST_ACTIVITY_KEY = 'safesnap_last_activity';
+// Cross-tab session messages: BroadcastChannel where available, storage events otherwise
+const BROADCAST_CHANNEL = 'safesnap_session';
+const BROADCAST_KEY = 'safesnap_session_broadcast';
+
+export type SessionEvent =
+  | { type: 'refreshed'; token: string }
+  | { type: 'expired' };
+
+export type SessionBroadcast =
+  | { type: 'login'; user: User }
+  | { type: 'logout' }
+  | { type: 'refreshed'; token: string };
+
+type SessionListener = (event: SessionEvent) => void;
+
+const listeners = new Set<SessionListener>();
+
+export const getStoredToken = (): string | null => localStorage.getItem(TOKEN_KEY);
+
+export const getStoredRefreshToken = (): string | null => localStorage.getItem(REFRESH_TOKEN_KEY);
+
+export const getStoredUser = (): Partial<User> => {
+  try {
+    return JSON.parse(localStorage.getItem(USER_KEY) || '{}');
+  } catch (error) {
+    console.error('Error parsing stored user data:', error);
+    return {};
+  }
+};
+
+export const storeSession = (token: string, refreshToken?: string, user?: User) => {
+  localStorage.setItem(TOKEN_KEY, token);
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  }
+  if (user) {
+    localStorage.setItem(USER_KEY, JSON.stringify(user));
+  }
+};
+
+export const clearStoredSession = () => {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(USER_KEY);
+  localStorage.removeItem(LAST_ACTIVITY_KEY);
+};
+
+export const recordActivity = (at = Date.now()) => {
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(at));
+};
+
+export const getLastActivity = (): number => {
+  return Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || Date.now();
+};
+
+// Lets the API client tell AuthContext about refreshes and failed refreshes without importing React
+export const onSessionEvent = (listener: SessionListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const emitSessionEvent = (event: SessionEvent) => {
+  listeners.forEach((listener) => listener(event));
+};
+
+// Delivered to every subscriber, including other AuthProviders in the sending tab (BroadcastChannel only)
+export const broadcastSession = (message: SessionBroadcast) => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(BROADCAST_CHANNEL);
+    channel.postMessage(message);
+    channel.close();
+    return;
+  }
+
+  // Storage events only fire for a changed value, so make every message unique
+  localStorage.setItem(BROADCAST_KEY, JSON.stringify({ message, sentAt: Date.now() }));
+  localStorage.removeItem(BROADCAST_KEY);
+};
+
+export const onSessionBroadcast = (listener: (message: SessionBroadcast) => void): (() => void) => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(BROADCAST_CHANNEL);
+    channel.onmessage = (event: MessageEvent<SessionBroadcast>) => listener(event.data);
+    return () => channel.close();
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== BROADCAST_KEY || !event.newValue) return;
+    try {
+      listener(JSON.parse(event.newValue).message);
+    } catch (error) {
+      console.error('Error parsing session broadcast:', error);
+    }
+  };
+
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
@@ -0,0 +1,92 @@
+const TILE_SIZE = 256;
+const TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+export interface StaticMapOptions {
+  width?: number;
+  height?: number;
+  zoom?: number;
+}
+
+const loadTile = (url: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    // Tiles are drawn onto a canvas that is read back, so they must be fetched with CORS
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load map tiles'));
+    image.src = url;
+  });
+};
+
+// Web Mercator position of a coordinate in pixels at the given zoom level
+const project = (latitude: number, longitude: number, zoom: number) => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const latRad = (latitude * Math.PI) / 180;
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * scale,
+  };
+};
+
+// Renders an OpenStreetMap snapshot centred on the coordinate, with a pin, as a JPEG data URL.
+// Leaflet maps can't be captured from the page, so the tiles are stitched together here instead.
+export const renderStaticMap = async (
+  latitude: number,
+  longitude: number,
+  { width = 800, height = 400, zoom = 16 }: StaticMapOptions = {}
+): Promise<string> => {
+  const center = project(latitude, longitude, zoom);
+  const left = center.x - width / 2;
+  const top = center.y - height / 2;
+  const tileCount = 2 ** zoom;
+
+  const tiles: Promise<{ image: HTMLImageElement; x: number; y: number }>[] = [];
+  for (let tileX = Math.floor(left / TILE_SIZE); tileX * TILE_SIZE < left + width; tileX++) {
+    for (let tileY = Math.floor(top / TILE_SIZE); tileY * TILE_SIZE < top + height; tileY++) {
+      if (tileY < 0 || tileY >= tileCount) continue;
+      const wrappedX = ((tileX % tileCount) + tileCount) % tileCount;
+      const url = TILE_URL.replace('{z}', String(zoom)).replace('{x}', String(wrappedX)).replace('{y}', String(tileY));
+      tiles.push(loadTile(url).then((image) => ({ image, x: tileX * TILE_SIZE - left, y: tileY * TILE_SIZE - top })));
+    }
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+
+  context.fillStyle = '#e5e7eb';
+  context.fillRect(0, 0, width, height);
+  (await Promise.all(tiles)).forEach(({ image, x, y }) => context.drawImage(image, x, y));
+
+  // Pin at the incident location
+  const pinX = width / 2;
+  const pinY = height / 2;
+  context.beginPath();
+  context.arc(pinX, pinY - 18, 10, Math.PI, 0);
+  context.lineTo(pinX, pinY);
+  context.closePath();
+  context.fillStyle = '#dc2626';
+  context.fill();
+  context.lineWidth = 2;
+  context.strokeStyle = '#ffffff';
+  context.stroke();
+  context.beginPath();
+  context.arc(pinX, pinY - 18, 4, 0, Math.PI * 2);
+  context.fillStyle = '#ffffff';
+  context.fill();
+
+  // The tile licence requires attribution on the image itself
+  const attribution = '© OpenStreetMap contributors';
+  context.font = '12px sans-serif';
+  const textWidth = context.measureText(attribution).width;
+  context.fillStyle = 'rgba(255, 255, 255, 0.8)';
+  context.fillRect(width - textWidth - 10, height - 18, textWidth + 10, 18);
+  context.fillStyle = '#374151';
+  context.fillText(attribution, width - textWidth - 5, height - 5);
+
+  return canvas.toDataURL('image/jpeg', 0.9);
+};
@@ -4,3 +4,18 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Countdown text for a duration, e.g. "1:05"
+export function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`
+}
+
+// Shallow copy without the given keys
+export function omit<T extends object, K extends keyof T>(value: T, keys: K[]): Omit<T, K> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([key]) => !keys.includes(key as K))
+  ) as Omit<T, K>
+}
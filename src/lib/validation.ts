@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+// Password rules for new passwords; sign-in keeps the looser legacy check so older accounts still work
+export const passwordSchema = z
+  .string()
+  .min(8, 'Password must be at least 8 characters')
+  .max(128, 'Password must be at most 128 characters')
+  .regex(/[a-z]/, 'Password must contain a lowercase letter')
+  .regex(/[A-Z]/, 'Password must contain an uppercase letter')
+  .regex(/[0-9]/, 'Password must contain a number');
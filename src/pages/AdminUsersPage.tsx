@@ -0,0 +1,453 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { userRoleSchema } from '@/api/schemas';
+import { usersApi } from '@/api/users';
+import { useAuth } from '@/contexts/AuthContext';
+import { ROLE_LABELS, getHomePath } from '@/lib/permissions';
+import { applyApiErrors } from '@/lib/form-errors';
+import { UserAccount, UserAccountStatus, UserQueryParams, UserRole } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  ArrowLeft,
+  AlertTriangle,
+  CheckCircle,
+  KeyRound,
+  Search,
+  UserPlus,
+  Users,
+} from 'lucide-react';
+
+const ROLES = userRoleSchema.options;
+
+const accountStatusColors: Record<UserAccountStatus, string> = {
+  ACTIVE: 'bg-green-100 text-green-800',
+  INVITED: 'bg-blue-100 text-blue-800',
+  DEACTIVATED: 'bg-gray-100 text-gray-800',
+};
+
+const inviteSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+  role: userRoleSchema,
+});
+
+type InviteFormData = z.infer<typeof inviteSchema>;
+
+type PendingAction =
+  | { type: 'deactivate'; account: UserAccount }
+  | { type: 'reset-password'; account: UserAccount };
+
+const AdminUsersPage: React.FC = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [queryParams, setQueryParams] = useState<UserQueryParams>({
+    page: 0,
+    size: 20,
+  });
+  const [searchTerm, setSearchTerm] = useState('');
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [notice, setNotice] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const { data: users, isLoading, error } = useQuery({
+    queryKey: ['users', queryParams],
+    queryFn: () => usersApi.getUsers(queryParams),
+  });
+
+  const inviteForm = useForm<InviteFormData>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: {
+      email: '',
+      role: 'WORKER',
+    },
+  });
+
+  const onMutationError = (error: Error) => {
+    setNotice({ type: 'error', message: error.message });
+  };
+
+  const refreshUsers = () => {
+    queryClient.invalidateQueries({ queryKey: ['users'] });
+    queryClient.invalidateQueries({ queryKey: ['metrics', 'summary'] });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: usersApi.inviteUser,
+    onSuccess: (invite) => {
+      inviteForm.reset({ email: '', role: invite.role });
+      setNotice({ type: 'success', message: `Invitation sent to ${invite.email}.` });
+      refreshUsers();
+    },
+    onError: (error: Error) => {
+      applyApiErrors(inviteForm, error);
+    },
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: number; role: UserRole }) => usersApi.updateRole(id, role),
+    onSuccess: (account) => {
+      setNotice({ type: 'success', message: `${account.name} is now a ${ROLE_LABELS[account.role]}.` });
+      refreshUsers();
+    },
+    onError: onMutationError,
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: (id: number) => usersApi.deactivateUser(id),
+    onSuccess: (account) => {
+      setNotice({ type: 'success', message: `${account.name} has been deactivated.` });
+      refreshUsers();
+    },
+    onError: onMutationError,
+  });
+
+  const reactivateMutation = useMutation({
+    mutationFn: (id: number) => usersApi.reactivateUser(id),
+    onSuccess: (account) => {
+      setNotice({ type: 'success', message: `${account.name} has been reactivated.` });
+      refreshUsers();
+    },
+    onError: onMutationError,
+  });
+
+  const forceResetMutation = useMutation({
+    mutationFn: (account: UserAccount) => usersApi.forcePasswordReset(account.id),
+    onSuccess: (_, account) => {
+      setNotice({ type: 'success', message: `A password reset link has been sent to ${account.email}.` });
+    },
+    onError: onMutationError,
+  });
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQueryParams(prev => ({ ...prev, search: searchTerm || undefined, page: 0 }));
+  };
+
+  const handleFilterChange = (key: keyof UserQueryParams, value: string | undefined) => {
+    setQueryParams(prev => ({
+      ...prev,
+      [key]: value || undefined,
+      page: 0,
+    }));
+  };
+
+  const handlePageChange = (newPage: number) => {
+    setQueryParams(prev => ({ ...prev, page: newPage }));
+  };
+
+  const confirmPendingAction = () => {
+    if (!pendingAction) return;
+    if (pendingAction.type === 'deactivate') {
+      deactivateMutation.mutate(pendingAction.account.id);
+    } else {
+      forceResetMutation.mutate(pendingAction.account);
+    }
+    setPendingAction(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16">
+            <Link to={getHomePath(user)}>
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900 ml-6">User Management</h1>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {notice && (
+          <div
+            className={`flex items-center space-x-2 text-sm p-4 rounded-md ${
+              notice.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-600'
+            }`}
+          >
+            {notice.type === 'success' ? <CheckCircle className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+            <span>{notice.message}</span>
+          </div>
+        )}
+
+        {/* Invite */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <UserPlus className="h-5 w-5 mr-2" />
+              Invite a User
+            </CardTitle>
+            <CardDescription>The invitee gets an email link to set up their account with the chosen role</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              onSubmit={inviteForm.handleSubmit((data) => inviteMutation.mutate(data))}
+              className="space-y-4"
+            >
+              {inviteForm.formState.errors.root && (
+                <div className="flex items-center space-x-2 text-red-600 text-sm">
+                  <AlertTriangle className="h-4 w-4" />
+                  <span>{inviteForm.formState.errors.root.message}</span>
+                </div>
+              )}
+              <div className="flex flex-col md:flex-row gap-4 md:items-end">
+                <div className="space-y-2 flex-1">
+                  <Label htmlFor="invite-email">Email</Label>
+                  <Input
+                    id="invite-email"
+                    type="email"
+                    placeholder="name@company.com"
+                    {...inviteForm.register('email')}
+                    className={inviteForm.formState.errors.email ? 'border-red-500' : ''}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="invite-role">Role</Label>
+                  <select
+                    id="invite-role"
+                    {...inviteForm.register('role')}
+                    className="flex h-10 w-full md:w-48 rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  >
+                    {ROLES.map((role) => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                </div>
+                <Button type="submit" disabled={inviteMutation.isPending}>
+                  {inviteMutation.isPending ? 'Sending...' : 'Send Invite'}
+                </Button>
+              </div>
+              {inviteForm.formState.errors.email && (
+                <p className="text-sm text-red-600">{inviteForm.formState.errors.email.message}</p>
+              )}
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Users */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Users className="h-5 w-5 mr-2" />
+              Accounts ({users?.totalElements || 0})
+            </CardTitle>
+            <CardDescription>Everyone with access to SafeSnap</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col md:flex-row gap-4">
+              <form onSubmit={handleSearch} className="flex-1">
+                <div className="flex">
+                  <Input
+                    placeholder="Search by name or email..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="flex-1"
+                  />
+                  <Button type="submit" className="ml-2">
+                    <Search className="h-4 w-4" />
+                  </Button>
+                </div>
+              </form>
+
+              <div className="flex gap-2">
+                <select
+                  value={queryParams.role || ''}
+                  onChange={(e) => handleFilterChange('role', e.target.value)}
+                  className="px-3 py-2 border rounded-md"
+                >
+                  <option value="">All Roles</option>
+                  {ROLES.map((role) => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+
+                <select
+                  value={queryParams.status || ''}
+                  onChange={(e) => handleFilterChange('status', e.target.value)}
+                  className="px-3 py-2 border rounded-md"
+                >
+                  <option value="">All Status</option>
+                  <option value="ACTIVE">Active</option>
+                  <option value="INVITED">Invited</option>
+                  <option value="DEACTIVATED">Deactivated</option>
+                </select>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="py-12 text-center">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+                <p className="mt-4 text-gray-600">Loading users...</p>
+              </div>
+            ) : error ? (
+              <div className="py-12 text-center">
+                <AlertTriangle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+                <p className="text-gray-600">{error.message}</p>
+              </div>
+            ) : users?.content.length === 0 ? (
+              <div className="py-12 text-center">
+                <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-600">No users match your current filters.</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-500">
+                      <th className="py-2 pr-4 font-medium">User</th>
+                      <th className="py-2 pr-4 font-medium">Role</th>
+                      <th className="py-2 pr-4 font-medium">Status</th>
+                      <th className="py-2 pr-4 font-medium">Last sign-in</th>
+                      <th className="py-2 font-medium text-right">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {users?.content.map((account) => {
+                      // The session may not know its numeric id; the email always identifies it
+                      const isSelf = account.email === user?.email;
+                      return (
+                        <tr key={account.id} className="border-b last:border-0">
+                          <td className="py-3 pr-4">
+                            <p className="font-medium text-gray-900">
+                              {account.name}
+                              {isSelf && <span className="text-gray-500 font-normal"> (you)</span>}
+                            </p>
+                            <p className="text-gray-500 text-xs">{account.email}</p>
+                          </td>
+                          <td className="py-3 pr-4">
+                            <select
+                              value={account.role}
+                              onChange={(e) => updateRoleMutation.mutate({ id: account.id, role: e.target.value as UserRole })}
+                              disabled={isSelf || updateRoleMutation.isPending}
+                              className="px-2 py-1 border rounded-md text-sm"
+                            >
+                              {ROLES.map((role) => (
+                                <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="py-3 pr-4">
+                            <Badge className={accountStatusColors[account.status]}>
+                              {account.status}
+                            </Badge>
+                          </td>
+                          <td className="py-3 pr-4 text-gray-600">
+                            {account.lastLoginAt ? new Date(account.lastLoginAt).toLocaleString() : 'Never'}
+                          </td>
+                          <td className="py-3">
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setPendingAction({ type: 'reset-password', account })}
+                                disabled={account.status !== 'ACTIVE' || forceResetMutation.isPending}
+                              >
+                                <KeyRound className="h-4 w-4 mr-1" />
+                                Reset Password
+                              </Button>
+                              {account.status === 'DEACTIVATED' ? (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => reactivateMutation.mutate(account.id)}
+                                  disabled={reactivateMutation.isPending}
+                                >
+                                  Reactivate
+                                </Button>
+                              ) : (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="text-red-600 border-red-200"
+                                  onClick={() => setPendingAction({ type: 'deactivate', account })}
+                                  disabled={isSelf || deactivateMutation.isPending}
+                                >
+                                  Deactivate
+                                </Button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Pagination */}
+            {users && users.totalPages > 1 && (
+              <div className="flex justify-center items-center space-x-2 pt-2">
+                <Button
+                  variant="outline"
+                  onClick={() => handlePageChange(queryParams.page! - 1)}
+                  disabled={users.first}
+                >
+                  Previous
+                </Button>
+
+                <span className="text-sm text-gray-600">
+                  Page {(queryParams.page || 0) + 1} of {users.totalPages}
+                </span>
+
+                <Button
+                  variant="outline"
+                  onClick={() => handlePageChange(queryParams.page! + 1)}
+                  disabled={users.last}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={pendingAction !== null} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.type === 'deactivate' ? 'Deactivate account?' : 'Force a password reset?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.type === 'deactivate'
+                ? `${pendingAction.account.name} will be signed out and can no longer sign in. Their incidents stay in SafeSnap and the account can be reactivated later.`
+                : `${pendingAction?.account.name}'s current password will stop working and a reset link will be emailed to ${pendingAction?.account.email}.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmPendingAction}
+              className={pendingAction?.type === 'deactivate' ? 'bg-destructive text-destructive-foreground hover:bg-destructive/90' : ''}
+            >
+              {pendingAction?.type === 'deactivate' ? 'Deactivate' : 'Send Reset Link'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AdminUsersPage;
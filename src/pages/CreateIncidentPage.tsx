@@ -8,6 +8,8 @@ import { MapContainer, TileLayer, Marker, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
 import { incidentsApi } from '@/api/incidents';
 import { storageApi } from '@/api/storage';
+import { useIdlePause } from '@/hooks/useIdlePause';
+import { applyApiErrors } from '@/lib/form-errors';
 import { CreateIncidentRequest } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -82,6 +84,9 @@ const CreateIncidentPage: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const audioInputRef = useRef<HTMLInputElement>(null);
 
+  // Don't let the idle timeout sign the worker out mid-upload
+  useIdlePause(isUploading);
+
   const form = useForm<IncidentFormData>({
     resolver: zodResolver(incidentSchema),
     defaultValues: {
@@ -98,7 +103,7 @@ const CreateIncidentPage: React.FC = () => {
       navigate('/worker');
     },
     onError: (error: Error) => {
-      form.setError('root', { message: error.message });
+      applyApiErrors(form, error);
     },
   });
 
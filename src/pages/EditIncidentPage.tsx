@@ -8,6 +8,8 @@ import { MapContainer, TileLayer, Marker, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
 import { incidentsApi } from '@/api/incidents';
 import { storageApi } from '@/api/storage';
+import { useIdlePause } from '@/hooks/useIdlePause';
+import { applyApiErrors } from '@/lib/form-errors';
 import { UpdateIncidentRequest } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -83,6 +85,9 @@ const EditIncidentPage: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const audioInputRef = useRef<HTMLInputElement>(null);
 
+  // Don't let the idle timeout sign the worker out mid-upload
+  useIdlePause(isUploading);
+
   const form = useForm<IncidentFormData>({
     resolver: zodResolver(incidentSchema),
     defaultValues: {
@@ -105,7 +110,7 @@ const EditIncidentPage: React.FC = () => {
       navigate(`/worker/incidents/${id}`);
     },
     onError: (error: Error) => {
-      form.setError('root', { message: error.message });
+      applyApiErrors(form, error);
     },
   });
 
@@ -0,0 +1,112 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { authApi } from '@/api/auth';
+import { applyApiErrors } from '@/lib/form-errors';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, ArrowLeft, MailCheck, Shield } from 'lucide-react';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+const ForgotPasswordPage: React.FC = () => {
+  const form = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: '',
+    },
+  });
+
+  const forgotPasswordMutation = useMutation({
+    mutationFn: authApi.forgotPassword,
+    onError: (error: Error) => {
+      applyApiErrors(form, error);
+    },
+  });
+
+  const onSubmit = (data: ForgotPasswordFormData) => {
+    forgotPasswordMutation.mutate(data);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="flex justify-center items-center mb-4">
+            <Shield className="h-12 w-12 text-primary mr-2" />
+            <h1 className="text-3xl font-bold text-gray-900">SafeSnap</h1>
+          </div>
+          <p className="text-gray-600">Incident reporting and management system</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Forgot Password</CardTitle>
+            <CardDescription>
+              Enter the email you sign in with and we'll send you a link to choose a new password
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {forgotPasswordMutation.isSuccess ? (
+              <div className="flex items-start space-x-3 text-sm bg-green-50 text-green-800 p-4 rounded-md">
+                <MailCheck className="h-5 w-5 flex-shrink-0" />
+                <p>
+                  If an account exists for <strong>{forgotPasswordMutation.variables?.email}</strong>, a reset
+                  link is on its way. The link expires after a short time, so use it soon.
+                </p>
+              </div>
+            ) : (
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                {form.formState.errors.root && (
+                  <div className="flex items-center space-x-2 text-red-600 text-sm">
+                    <AlertTriangle className="h-4 w-4" />
+                    <span>{form.formState.errors.root.message}</span>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    {...form.register('email')}
+                    className={form.formState.errors.email ? 'border-red-500' : ''}
+                  />
+                  {form.formState.errors.email && (
+                    <p className="text-sm text-red-600">{form.formState.errors.email.message}</p>
+                  )}
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={forgotPasswordMutation.isPending}
+                >
+                  {forgotPasswordMutation.isPending ? 'Sending link...' : 'Send Reset Link'}
+                </Button>
+              </form>
+            )}
+
+            <div className="text-center">
+              <Link to="/login" className="inline-flex items-center text-sm text-primary hover:underline">
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back to sign in
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPasswordPage;
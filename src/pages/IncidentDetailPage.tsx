@@ -1,16 +1,24 @@
 import React from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useParams, Link } from 'react-router-dom';
+import { useParams, Link, useNavigate } from 'react-router-dom';
 import { MapContainer, TileLayer, Marker } from 'react-leaflet';
 import L from 'leaflet';
 import { incidentsApi } from '@/api/incidents';
 import { rcaApi } from '@/api/rca';
 import { useAuth } from '@/contexts/AuthContext';
-import { IncidentStatus } from '@/types';
+import { usePermission } from '@/hooks/usePermission';
+import { getHomePath } from '@/lib/permissions';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import AuthenticatedImage from '@/components/AuthenticatedImage';
+import AssigneePicker from '@/components/AssigneePicker';
+import Can from '@/components/Can';
+import DeleteIncidentDialog from '@/components/DeleteIncidentDialog';
+import ExportIncidentPdfButton from '@/components/ExportIncidentPdfButton';
+import IncidentComments from '@/components/IncidentComments';
+import IncidentStatusActions from '@/components/IncidentStatusActions';
+import IncidentTimeline from '@/components/IncidentTimeline';
 import { 
   ArrowLeft, 
   MapPin, 
@@ -23,7 +31,8 @@ import {
   Edit,
   Settings,
   FileText,
-  Brain
+  Brain,
+  Trash2
 } from 'lucide-react';
 
 // Fix for default markers
@@ -53,7 +62,11 @@ const severityColors = {
 const IncidentDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth();
+  const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const canEditOwn = usePermission('incident.edit_own');
+  const canManage = usePermission('incident.update_status');
+  const canReviewRca = usePermission('rca.review');
 
   const { data: incident, isLoading, error } = useQuery({
     queryKey: ['incident', id],
@@ -64,22 +77,14 @@ const IncidentDetailPage: React.FC = () => {
   const { data: rcaSuggestions } = useQuery({
     queryKey: ['rca-suggestions', id],
     queryFn: () => rcaApi.getRcaSuggestions(id!),
-    enabled: !!id && user?.role === 'MANAGER' && incident?.status === 'UNDER_REVIEW',
-  });
-
-  const updateStatusMutation = useMutation({
-    mutationFn: ({ status }: { status: IncidentStatus }) => 
-      incidentsApi.updateStatus(id!, status),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['incident', id] });
-      queryClient.invalidateQueries({ queryKey: ['incidents'] });
-    },
+    enabled: !!id && canReviewRca && incident?.status === 'UNDER_REVIEW',
   });
 
   const reviewRcaMutation = useMutation({
     mutationFn: () => rcaApi.reviewRcaSuggestions(id!),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['rca-suggestions', id] });
+      queryClient.invalidateQueries({ queryKey: ['incident', id, 'history'] });
     },
   });
 
@@ -109,7 +114,7 @@ const IncidentDetailPage: React.FC = () => {
           <AlertTriangle className="h-12 w-12 text-red-500 mx-auto mb-4" />
           <h2 className="text-xl font-semibold text-gray-900 mb-2">Incident Not Found</h2>
           <p className="text-gray-600 mb-4">The incident you're looking for doesn't exist or you don't have access to it.</p>
-          <Link to={user?.role === 'MANAGER' ? '/manager' : '/worker'}>
+          <Link to={getHomePath(user)}>
             <Button>Return to Dashboard</Button>
           </Link>
         </div>
@@ -117,12 +122,10 @@ const IncidentDetailPage: React.FC = () => {
     );
   }
 
-  const canEdit = user?.role === 'WORKER' && 
+  const canEdit = canEditOwn && 
     incident.reportedByEmail === user?.email && 
     (incident.status === 'OPEN' || incident.status === 'IN_PROGRESS');
 
-  const canManage = user?.role === 'MANAGER';
-
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -130,7 +133,7 @@ const IncidentDetailPage: React.FC = () => {
         <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex items-center justify-between h-16">
             <div className="flex items-center">
-              <Link to={user?.role === 'MANAGER' ? '/manager' : '/worker'}>
+              <Link to={getHomePath(user)}>
                 <Button variant="ghost" size="sm">
                   <ArrowLeft className="h-4 w-4 mr-2" />
                   Back to Dashboard
@@ -139,6 +142,7 @@ const IncidentDetailPage: React.FC = () => {
               <h1 className="text-2xl font-bold text-gray-900 ml-6">Incident Details</h1>
             </div>
             <div className="flex items-center space-x-2">
+              <ExportIncidentPdfButton incident={incident} />
               {canEdit && (
                 <Link to={`/worker/incidents/${id}/edit`}>
                   <Button variant="outline">
@@ -147,6 +151,14 @@ const IncidentDetailPage: React.FC = () => {
                   </Button>
                 </Link>
               )}
+              <Can permission="incident.delete">
+                <DeleteIncidentDialog incident={incident} onDeleted={() => navigate(getHomePath(user))}>
+                  <Button variant="outline" className="text-red-600 border-red-200">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                </DeleteIncidentDialog>
+              </Can>
             </div>
           </div>
         </div>
@@ -294,8 +306,8 @@ const IncidentDetailPage: React.FC = () => {
               </Card>
             )}
 
-            {/* RCA Section (Manager Only) */}
-            {canManage && rcaSuggestions && (
+            {/* RCA Section (RCA reviewers only) */}
+            {canReviewRca && rcaSuggestions && (
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center">
@@ -323,12 +335,14 @@ const IncidentDetailPage: React.FC = () => {
                         </Button>
                       )}
                       {(rcaSuggestions as any).status === 'REVIEWED' && (
-                        <Button 
-                          onClick={() => approveRcaMutation.mutate()}
-                          disabled={approveRcaMutation.isPending}
-                        >
-                          Approve & Finalize
-                        </Button>
+                        <Can permission="rca.approve">
+                          <Button 
+                            onClick={() => approveRcaMutation.mutate()}
+                            disabled={approveRcaMutation.isPending}
+                          >
+                            Approve & Finalize
+                          </Button>
+                        </Can>
                       )}
                     </div>
                   </div>
@@ -405,11 +419,15 @@ const IncidentDetailPage: React.FC = () => {
                 </CardContent>
               </Card>
             )}
+
+            <IncidentComments incidentId={incident.id} />
+
+            <IncidentTimeline incidentId={incident.id} />
           </div>
 
           {/* Sidebar */}
           <div className="space-y-6">
-            {/* Status Management (Manager Only) */}
+            {/* Status Management (status managers only) */}
             {canManage && (
               <Card>
                 <CardHeader>
@@ -423,20 +441,17 @@ const IncidentDetailPage: React.FC = () => {
                     <label className="text-sm font-medium text-gray-700 mb-2 block">
                       Update Status
                     </label>
-                    <select
-                      value={incident.status}
-                      onChange={(e) => updateStatusMutation.mutate({ status: e.target.value as IncidentStatus })}
-                      disabled={updateStatusMutation.isPending}
-                      className="w-full px-3 py-2 border rounded-md text-sm"
-                    >
-                      <option value="OPEN">Open</option>
-                      <option value="IN_PROGRESS">In Progress</option>
-                      <option value="UNDER_REVIEW">Under Review</option>
-                      <option value="RESOLVED">Resolved</option>
-                      <option value="CLOSED">Closed</option>
-                      <option value="CANCELLED">Cancelled</option>
-                    </select>
+                    <IncidentStatusActions incident={incident} />
                   </div>
+
+                  <Can permission="incident.assign">
+                    <div>
+                      <label className="text-sm font-medium text-gray-700 mb-2 block">
+                        Assignee
+                      </label>
+                      <AssigneePicker incident={incident} />
+                    </div>
+                  </Can>
                 </CardContent>
               </Card>
             )}
@@ -1,11 +1,14 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useMutation } from '@tanstack/react-query';
-import { useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { authApi } from '@/api/auth';
 import { useAuth } from '@/contexts/AuthContext';
+import { getPostLoginPath, getReturnTo } from '@/lib/redirect';
+import { isSelfSignupEnabled } from '@/lib/config';
+import { applyApiErrors } from '@/lib/form-errors';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -17,28 +20,20 @@ const loginSchema = z.object({
   password: z.string().min(6, 'Password must be at least 6 characters'),
 });
 
-const registerSchema = z.object({
-  name: z.string().min(2, 'Name must be at least 2 characters'),
-  email: z.string().email('Please enter a valid email address'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
-  role: z.enum(['WORKER', 'MANAGER']),
-});
-
 type LoginFormData = z.infer<typeof loginSchema>;
-type RegisterFormData = z.infer<typeof registerSchema>;
 
 const LoginPage: React.FC = () => {
-  const [isLogin, setIsLogin] = useState(true);
   const { login, isAuthenticated, user } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const returnTo = getReturnTo(location);
 
   // Redirect if already authenticated
   useEffect(() => {
     if (isAuthenticated && user) {
-      const targetPath = user?.role === 'MANAGER' ? '/manager' : '/worker';
-      navigate(targetPath, { replace: true });
+      navigate(getPostLoginPath(user, returnTo), { replace: true });
     }
-  }, [isAuthenticated, user, navigate]);
+  }, [isAuthenticated, user, navigate, returnTo]);
 
   const loginForm = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
@@ -48,41 +43,16 @@ const LoginPage: React.FC = () => {
     },
   });
 
-  const registerForm = useForm<RegisterFormData>({
-    resolver: zodResolver(registerSchema),
-    defaultValues: {
-      name: '',
-      email: '',
-      password: '',
-      role: 'WORKER',
-    },
-  });
-
   const loginMutation = useMutation({
     mutationFn: authApi.login,
     onSuccess: (data) => {
-      login(data.token, data.user);
-      
-      // Force navigation after login
-      const targetPath = data.user.role === 'MANAGER' ? '/manager' : '/worker';
-      navigate(targetPath, { replace: true });
-    },
-    onError: (error: Error) => {
-      loginForm.setError('root', { message: error.message });
-    },
-  });
-
-  const registerMutation = useMutation({
-    mutationFn: authApi.register,
-    onSuccess: (data) => {
-      login(data.token, data.user);
+      login(data.token, data.user, data.refreshToken);
       
-      // Force navigation after registration
-      const targetPath = data.user.role === 'MANAGER' ? '/manager' : '/worker';
-      navigate(targetPath, { replace: true });
+      // Force navigation after login, back to the originally requested page when the user may see it
+      navigate(getPostLoginPath(data.user, returnTo), { replace: true });
     },
     onError: (error: Error) => {
-      registerForm.setError('root', { message: error.message });
+      applyApiErrors(loginForm, error);
     },
   });
 
@@ -90,10 +60,6 @@ const LoginPage: React.FC = () => {
     loginMutation.mutate(data);
   };
 
-  const onRegisterSubmit = (data: RegisterFormData) => {
-    registerMutation.mutate(data);
-  };
-
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
       <div className="w-full max-w-md">
@@ -107,136 +73,68 @@ const LoginPage: React.FC = () => {
 
         <Card>
           <CardHeader>
-            <CardTitle>{isLogin ? 'Sign In' : 'Create Account'}</CardTitle>
-            <CardDescription>
-              {isLogin 
-                ? 'Enter your credentials to access your account' 
-                : 'Fill in your details to create a new account'
-              }
-            </CardDescription>
+            <CardTitle>Sign In</CardTitle>
+            <CardDescription>Enter your credentials to access your account</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            {isLogin ? (
-              <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
-                {loginForm.formState.errors.root && (
-                  <div className="flex items-center space-x-2 text-red-600 text-sm">
-                    <AlertTriangle className="h-4 w-4" />
-                    <span>{loginForm.formState.errors.root.message}</span>
-                  </div>
-                )}
-
-                <div className="space-y-2">
-                  <Label htmlFor="email">Email</Label>
-                  <Input
-                    id="email"
-                    type="email"
-                    {...loginForm.register('email')}
-                    className={loginForm.formState.errors.email ? 'border-red-500' : ''}
-                  />
-                  {loginForm.formState.errors.email && (
-                    <p className="text-sm text-red-600">{loginForm.formState.errors.email.message}</p>
-                  )}
+            <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
+              {loginForm.formState.errors.root && (
+                <div className="flex items-center space-x-2 text-red-600 text-sm">
+                  <AlertTriangle className="h-4 w-4" />
+                  <span>{loginForm.formState.errors.root.message}</span>
                 </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  {...loginForm.register('email')}
+                  className={loginForm.formState.errors.email ? 'border-red-500' : ''}
+                />
+                {loginForm.formState.errors.email && (
+                  <p className="text-sm text-red-600">{loginForm.formState.errors.email.message}</p>
+                )}
+              </div>
 
-                <div className="space-y-2">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
                   <Label htmlFor="password">Password</Label>
-                  <Input
-                    id="password"
-                    type="password"
-                    {...loginForm.register('password')}
-                    className={loginForm.formState.errors.password ? 'border-red-500' : ''}
-                  />
-                  {loginForm.formState.errors.password && (
-                    <p className="text-sm text-red-600">{loginForm.formState.errors.password.message}</p>
-                  )}
+                  <Link to="/forgot-password" className="text-sm text-primary hover:underline">
+                    Forgot password?
+                  </Link>
                 </div>
-
-                <Button 
-                  type="submit" 
-                  className="w-full" 
-                  disabled={loginMutation.isPending}
-                >
-                  {loginMutation.isPending ? 'Signing in...' : 'Sign In'}
-                </Button>
-              </form>
-            ) : (
-              <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)} className="space-y-4">
-                {registerForm.formState.errors.root && (
-                  <div className="flex items-center space-x-2 text-red-600 text-sm">
-                    <AlertTriangle className="h-4 w-4" />
-                    <span>{registerForm.formState.errors.root.message}</span>
-                  </div>
+                <Input
+                  id="password"
+                  type="password"
+                  {...loginForm.register('password')}
+                  className={loginForm.formState.errors.password ? 'border-red-500' : ''}
+                />
+                {loginForm.formState.errors.password && (
+                  <p className="text-sm text-red-600">{loginForm.formState.errors.password.message}</p>
                 )}
+              </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="name">Full Name</Label>
-                  <Input
-                    id="name"
-                    type="text"
-                    {...registerForm.register('name')}
-                    className={registerForm.formState.errors.name ? 'border-red-500' : ''}
-                  />
-                  {registerForm.formState.errors.name && (
-                    <p className="text-sm text-red-600">{registerForm.formState.errors.name.message}</p>
-                  )}
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="register-email">Email</Label>
-                  <Input
-                    id="register-email"
-                    type="email"
-                    {...registerForm.register('email')}
-                    className={registerForm.formState.errors.email ? 'border-red-500' : ''}
-                  />
-                  {registerForm.formState.errors.email && (
-                    <p className="text-sm text-red-600">{registerForm.formState.errors.email.message}</p>
-                  )}
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="register-password">Password</Label>
-                  <Input
-                    id="register-password"
-                    type="password"
-                    {...registerForm.register('password')}
-                    className={registerForm.formState.errors.password ? 'border-red-500' : ''}
-                  />
-                  {registerForm.formState.errors.password && (
-                    <p className="text-sm text-red-600">{registerForm.formState.errors.password.message}</p>
-                  )}
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="role">Role</Label>
-                  <select
-                    id="role"
-                    {...registerForm.register('role')}
-                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
-                  >
-                    <option value="WORKER">Worker</option>
-                    <option value="MANAGER">Manager</option>
-                  </select>
-                </div>
-
-                <Button 
-                  type="submit" 
-                  className="w-full" 
-                  disabled={registerMutation.isPending}
-                >
-                  {registerMutation.isPending ? 'Creating account...' : 'Create Account'}
-                </Button>
-              </form>
-            )}
+              <Button 
+                type="submit" 
+                className="w-full" 
+                disabled={loginMutation.isPending}
+              >
+                {loginMutation.isPending ? 'Signing in...' : 'Sign In'}
+              </Button>
+            </form>
 
             <div className="text-center">
-              <button
-                type="button"
-                onClick={() => setIsLogin(!isLogin)}
-                className="text-sm text-primary hover:underline"
-              >
-                {isLogin ? "Don't have an account? Sign up" : "Already have an account? Sign in"}
-              </button>
+              {isSelfSignupEnabled ? (
+                <Link to="/register" className="text-sm text-primary hover:underline">
+                  Don't have an account? Sign up
+                </Link>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  Need an account? Ask your manager for an invite link.
+                </p>
+              )}
             </div>
           </CardContent>
         </Card>
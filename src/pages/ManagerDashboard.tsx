@@ -1,6 +1,6 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { 
   BarChart, 
   Bar, 
@@ -16,15 +16,29 @@ import {
 import { incidentsApi } from '@/api/incidents';
 import { metricsApi } from '@/api/metrics';
 import { rcaApi } from '@/api/rca';
+import { savedViewsApi } from '@/api/saved-views';
 import { useAuth } from '@/contexts/AuthContext';
-import { IncidentQueryParams } from '@/types';
+import { useIncidentQueryParams } from '@/hooks/useIncidentQueryParams';
+import { BulkItemResult, fetchAllMatchingIncidents } from '@/lib/bulk-actions';
+import { countActiveFilters } from '@/lib/incident-filters';
+import { LAYOUT_LABELS, LAYOUT_PARAM, parseLayout, toViewSearchParams } from '@/lib/saved-views';
+import { IncidentListItem, IncidentListLayout, IncidentQueryParams, SavedView } from '@/types';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { toast } from '@/components/ui/use-toast';
 import AuthenticatedImage from '@/components/AuthenticatedImage';
+import AssigneePicker from '@/components/AssigneePicker';
+import BulkActionBar from '@/components/BulkActionBar';
+import Can from '@/components/Can';
+import DeleteIncidentDialog from '@/components/DeleteIncidentDialog';
+import ExportIncidentsDialog from '@/components/ExportIncidentsDialog';
+import IncidentBoard from '@/components/IncidentBoard';
+import IncidentFilters from '@/components/IncidentFilters';
+import IncidentSortControls from '@/components/IncidentSortControls';
+import IncidentTrash from '@/components/IncidentTrash';
+import SavedViewTabs from '@/components/SavedViewTabs';
 import { 
-  Search, 
   AlertTriangle, 
   Clock, 
   Users,
@@ -33,7 +47,8 @@ import {
   User,
   Activity,
   Shield,
-  BarChart3
+  BarChart3,
+  Trash2
 } from 'lucide-react';
 
 const statusColors = {
@@ -52,44 +67,21 @@ const severityColors = {
   CRITICAL: 'bg-red-100 text-red-800',
 };
 
-const CHART_COLORS = ['#3b82f6', '#ef4444', '#f59e0b', '#10b981', '#8b5cf6', '#6b7280'];
+const PAGE_SIZES = [10, 25, 50];
 
-// Utility function to filter valid image URLs from debug text
-const filterValidImageUrls = (urls: string[] | undefined): string[] => {
-  if (!urls || !Array.isArray(urls)) return [];
-  
-  return urls.filter(url => {
-    // Check if it's a valid URL string
-    if (typeof url !== 'string' || url.trim().length === 0) {
-      return false;
-    }
-    
-    const trimmedUrl = url.trim();
-    
-    // Exclude debug status messages first
-    const debugTexts = ['uploading', 'uploaded', 'successfully', 'error', 'failed', '✅', '❌'];
-    if (debugTexts.some(debug => trimmedUrl.toLowerCase().includes(debug))) {
-      return false;
-    }
-    
-    // Only include HTTP/HTTPS URLs (this will include S3 URLs)
-    if (trimmedUrl.startsWith('http://') || trimmedUrl.startsWith('https://')) {
-      return true;
-    }
-    
-    // Exclude everything else (local file paths, relative paths, etc.)
-    return false;
-  });
-};
+const LAYOUT_OPTIONS = Object.keys(LAYOUT_LABELS) as IncidentListLayout[];
+
+const CHART_COLORS = ['#3b82f6', '#ef4444', '#f59e0b', '#10b981', '#8b5cf6', '#6b7280'];
 
 const ManagerDashboard: React.FC = () => {
   const { user, logout } = useAuth();
   const queryClient = useQueryClient();
-  const [queryParams, setQueryParams] = useState<IncidentQueryParams>({
-    page: 0,
-    size: 10,
-  });
-  const [searchTerm, setSearchTerm] = useState('');
+  const { params: queryParams, setFilters, setPage, clearFilters } = useIncidentQueryParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const layout = parseLayout(searchParams.get(LAYOUT_PARAM));
+  const [view, setView] = useState<'incidents' | 'trash'>('incidents');
+  // Selected incidents by id; kept across pages so a selection can span the whole filter
+  const [selected, setSelected] = useState<Record<string, IncidentListItem>>({});
 
   const { data: metrics, isLoading: metricsLoading } = useQuery({
     queryKey: ['metrics', 'summary'],
@@ -101,9 +93,26 @@ const ManagerDashboard: React.FC = () => {
     queryFn: () => metricsApi.getRcaStatistics(),
   });
 
+  // The board loads its own columns, so the flat page is only fetched for the list layouts
   const { data: incidents, isLoading: incidentsLoading } = useQuery({
     queryKey: ['incidents', 'all', queryParams],
     queryFn: () => incidentsApi.getAllIncidents(queryParams),
+    enabled: layout !== 'board',
+  });
+
+  // On the board the export still needs the number of matching incidents; one row is enough for that
+  const boardCountParams = { ...queryParams, page: 0, size: 1 };
+  const { data: boardMatchingCount } = useQuery({
+    queryKey: ['incidents', 'all', boardCountParams],
+    queryFn: () => incidentsApi.getAllIncidents(boardCountParams),
+    select: (page) => page.totalElements,
+    enabled: layout === 'board',
+  });
+  const matchingCount = (layout === 'board' ? boardMatchingCount : incidents?.totalElements) ?? 0;
+
+  const { data: savedViews } = useQuery({
+    queryKey: ['saved-views'],
+    queryFn: () => savedViewsApi.getViews(),
   });
 
   // RCA Generation Mutation
@@ -115,27 +124,104 @@ const ManagerDashboard: React.FC = () => {
     },
   });
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    setQueryParams(prev => ({ ...prev, search: searchTerm || undefined, page: 0 }));
+  const selectAllMatchingMutation = useMutation({
+    mutationFn: () => fetchAllMatchingIncidents(queryParams),
+    onSuccess: (matching) => {
+      setSelected(Object.fromEntries(matching.map((incident) => [incident.id, incident])));
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not select all matching incidents', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  // A selection only makes sense for the filter it was made under
+  const handleFiltersChange = (filters: Partial<IncidentQueryParams>) => {
+    setSelected({});
+    setFilters(filters);
+  };
+
+  const handleClearFilters = () => {
+    setSelected({});
+    clearFilters();
   };
 
-  const handleFilterChange = (key: keyof IncidentQueryParams, value: string | undefined) => {
-    setQueryParams(prev => ({ 
-      ...prev, 
-      [key]: value || undefined, 
-      page: 0 
-    }));
+  const handleOpenView = useCallback(
+    (savedView: Pick<SavedView, 'query' | 'layout'>, options?: { replace?: boolean }) => {
+      setSelected({});
+      setSearchParams(toViewSearchParams(savedView), options);
+    },
+    [setSearchParams]
+  );
+
+  // Open the default view once per visit, and only when the URL doesn't already ask for something
+  const defaultViewChecked = useRef(false);
+  useEffect(() => {
+    if (defaultViewChecked.current || !savedViews) return;
+    defaultViewChecked.current = true;
+
+    const defaultView = savedViews.find((savedView) => savedView.isDefault);
+    if (defaultView && searchParams.toString() === '') {
+      handleOpenView(defaultView, { replace: true });
+    }
+  }, [savedViews, searchParams, handleOpenView]);
+
+  const handleLayoutChange = (nextLayout: IncidentListLayout) => {
+    setSearchParams((current) => {
+      const next = new URLSearchParams(current);
+      if (nextLayout === 'list') {
+        next.delete(LAYOUT_PARAM);
+      } else {
+        next.set(LAYOUT_PARAM, nextLayout);
+      }
+      return next;
+    });
   };
 
   const handlePageChange = (newPage: number) => {
-    setQueryParams(prev => ({ ...prev, page: newPage }));
+    setPage(newPage);
   };
 
   const handleGenerateRca = (incidentId: string) => {
     generateRcaMutation.mutate(incidentId);
   };
 
+  const toggleSelected = (incident: IncidentListItem) => {
+    setSelected(prev => {
+      const { [incident.id]: removed, ...rest } = prev;
+      return removed ? rest : { ...prev, [incident.id]: incident };
+    });
+  };
+
+  const pageIncidents = incidents?.content ?? [];
+  // The compact layout leaves out descriptions, photos and RCA details to fit more incidents on screen
+  const isCompact = layout === 'compact';
+  // A size from a shared link or view that isn't one of the options still shows as selected
+  const pageSizes = [...new Set([...PAGE_SIZES, queryParams.size ?? PAGE_SIZES[0]])].sort((a, b) => a - b);
+  const isPageSelected = pageIncidents.length > 0 && pageIncidents.every((incident) => selected[incident.id]);
+
+  const togglePageSelected = () => {
+    setSelected(prev => {
+      const next = { ...prev };
+      pageIncidents.forEach((incident) => {
+        if (isPageSelected) {
+          delete next[incident.id];
+        } else {
+          next[incident.id] = incident;
+        }
+      });
+      return next;
+    });
+  };
+
+  // Keep failed incidents selected so the action can be retried on just those
+  const handleBulkFinished = (results: BulkItemResult[]) => {
+    setSelected(prev => Object.fromEntries(
+      results
+        .filter((result) => result.outcome === 'failed' && prev[result.id])
+        .map((result) => [result.id, prev[result.id]])
+    ));
+  };
+
   // Prepare chart data with proper null checks
   const statusChartData = (metrics && metrics.incidentsByStatus) 
     ? Object.entries(metrics.incidentsByStatus).map(([status, count]) => ({
@@ -151,7 +237,8 @@ const ManagerDashboard: React.FC = () => {
       })) 
     : [];
 
-  if (metricsLoading || incidentsLoading) {
+  // The board shows a spinner per column instead
+  if (metricsLoading || (incidentsLoading && layout !== 'board')) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
@@ -173,6 +260,14 @@ const ManagerDashboard: React.FC = () => {
               <h1 className="text-2xl font-bold text-gray-900">SafeSnap Manager</h1>
             </div>
             <div className="flex items-center space-x-4">
+              <Can permission="user.manage">
+                <Link to="/admin/users">
+                  <Button variant="ghost">
+                    <Users className="h-4 w-4 mr-2" />
+                    Users
+                  </Button>
+                </Link>
+              </Can>
               <div className="flex items-center text-sm text-gray-600">
                 <User className="h-4 w-4 mr-2" />
                 {user?.name}
@@ -329,111 +424,174 @@ const ManagerDashboard: React.FC = () => {
 
         {/* Search and Filters */}
         <Card className="mb-6">
-          <CardHeader>
-            <CardTitle>Team Incidents</CardTitle>
-            <CardDescription>All incidents reported by your team</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="flex flex-col md:flex-row gap-4 mb-4">
-              <form onSubmit={handleSearch} className="flex-1">
-                <div className="flex">
-                  <Input
-                    placeholder="Search incidents..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
-                    className="flex-1"
-                  />
-                  <Button type="submit" className="ml-2">
-                    <Search className="h-4 w-4" />
-                  </Button>
-                </div>
-              </form>
-              
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>{view === 'trash' ? 'Trash' : 'Team Incidents'}</CardTitle>
+              <CardDescription>
+                {view === 'trash'
+                  ? 'Deleted incidents can be restored until they are permanently removed'
+                  : 'All incidents reported by your team'}
+              </CardDescription>
+            </div>
+            <Can permission="incident.delete">
               <div className="flex gap-2">
-                <select
-                  value={queryParams.status || ''}
-                  onChange={(e) => handleFilterChange('status', e.target.value)}
-                  className="px-3 py-2 border rounded-md"
+                <Button
+                  variant={view === 'incidents' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setView('incidents')}
                 >
-                  <option value="">All Status</option>
-                  <option value="OPEN">Open</option>
-                  <option value="IN_PROGRESS">In Progress</option>
-                  <option value="UNDER_REVIEW">Under Review</option>
-                  <option value="RESOLVED">Resolved</option>
-                  <option value="CLOSED">Closed</option>
-                </select>
-
-                <select
-                  value={queryParams.severity || ''}
-                  onChange={(e) => handleFilterChange('severity', e.target.value)}
-                  className="px-3 py-2 border rounded-md"
+                  Incidents
+                </Button>
+                <Button
+                  variant={view === 'trash' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setView('trash')}
                 >
-                  <option value="">All Severity</option>
-                  <option value="LOW">Low</option>
-                  <option value="MEDIUM">Medium</option>
-                  <option value="HIGH">High</option>
-                  <option value="CRITICAL">Critical</option>
-                </select>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Trash
+                </Button>
               </div>
-            </div>
-          </CardContent>
+            </Can>
+          </CardHeader>
+          {view === 'incidents' && (
+            <CardContent>
+              <SavedViewTabs params={queryParams} layout={layout} onOpenView={handleOpenView} />
+              <IncidentFilters
+                params={queryParams}
+                onChange={handleFiltersChange}
+                onClear={handleClearFilters}
+                showReporterFilter
+                actions={<ExportIncidentsDialog params={queryParams} matchingCount={matchingCount} />}
+              />
+              <div className="mt-4 pt-4 border-t flex flex-wrap items-center justify-between gap-3">
+                <IncidentSortControls sort={queryParams.sort} onChange={(sort) => setFilters({ sort })} />
+                <div className="flex items-center gap-3 text-sm text-gray-600">
+                  {/* Board columns page on their own */}
+                  {layout !== 'board' && (
+                    <>
+                      <label htmlFor="page-size">Per page</label>
+                      <select
+                        id="page-size"
+                        className="px-2 py-1.5 border rounded-md text-sm bg-white"
+                        value={queryParams.size}
+                        onChange={(e) => handleFiltersChange({ size: Number(e.target.value) })}
+                      >
+                        {pageSizes.map((size) => (
+                          <option key={size} value={size}>{size}</option>
+                        ))}
+                      </select>
+                    </>
+                  )}
+                  <div className="flex" role="group" aria-label="Layout">
+                    {LAYOUT_OPTIONS.map((option, index) => (
+                      <Button
+                        key={option}
+                        variant={layout === option ? 'default' : 'outline'}
+                        size="sm"
+                        className={index === 0 ? 'rounded-r-none' : index === LAYOUT_OPTIONS.length - 1 ? 'rounded-l-none' : 'rounded-none'}
+                        onClick={() => handleLayoutChange(option)}
+                      >
+                        {LAYOUT_LABELS[option]}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          )}
         </Card>
 
         {/* Incidents List */}
-        <div className="space-y-4">
-          {incidents?.content.length === 0 ? (
-            <Card>
-              <CardContent className="py-12 text-center">
-                <AlertTriangle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                <h3 className="text-lg font-medium text-gray-900 mb-2">No incidents found</h3>
-                <p className="text-gray-600">
-                  {queryParams.search || queryParams.status || queryParams.severity 
-                    ? "No incidents match your current filters."
-                    : "No incidents have been reported yet."
-                  }
-                </p>
-              </CardContent>
-            </Card>
-          ) : (
-            <>
-              {incidents?.content.map((incident) => (
-                <Card key={incident.id} className="hover:shadow-md transition-shadow">
-                  <CardContent className="p-6">
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2 mb-2">
-                          <Badge className={severityColors[incident.severity]}>
-                            {incident.severity}
-                          </Badge>
-                          <Badge className={statusColors[incident.status]}>
-                            {incident.status.replace('_', ' ')}
-                          </Badge>
-                          {incident.rcaReport && (
-                            <Badge className="bg-blue-100 text-blue-800">
-                              RCA Complete
+        {view === 'trash' ? (
+          <IncidentTrash />
+        ) : layout === 'board' ? (
+          <IncidentBoard params={queryParams} />
+        ) : (
+          <div className="space-y-4">
+            {pageIncidents.length > 0 && (
+              <label className="flex items-center gap-2 px-1 text-sm text-gray-600 cursor-pointer w-fit">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 rounded border-gray-300"
+                  checked={isPageSelected}
+                  onChange={togglePageSelected}
+                />
+                Select all on this page
+              </label>
+            )}
+
+            <BulkActionBar
+              selected={Object.values(selected)}
+              matchingCount={matchingCount}
+              onSelectAllMatching={() => selectAllMatchingMutation.mutate()}
+              isSelectingAll={selectAllMatchingMutation.isPending}
+              onClear={() => setSelected({})}
+              onFinished={handleBulkFinished}
+            />
+
+            {incidents?.content.length === 0 ? (
+              <Card>
+                <CardContent className="py-12 text-center">
+                  <AlertTriangle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">No incidents found</h3>
+                  <p className="text-gray-600">
+                    {countActiveFilters(queryParams) > 0
+                      ? "No incidents match your current filters."
+                      : "No incidents have been reported yet."
+                    }
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <>
+                {incidents?.content.map((incident) => (
+                  <Card
+                    key={incident.id}
+                    className={`hover:shadow-md transition-shadow ${selected[incident.id] ? 'ring-2 ring-primary' : ''}`}
+                  >
+                    <CardContent className={isCompact ? 'p-3' : 'p-6'}>
+                      <div className="flex items-start justify-between">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 mt-1 mr-4 rounded border-gray-300"
+                          checked={!!selected[incident.id]}
+                          onChange={() => toggleSelected(incident)}
+                          aria-label={`Select ${incident.title}`}
+                        />
+                        <div className="flex-1">
+                          <div className={`flex items-center gap-2 ${isCompact ? 'mb-1' : 'mb-2'}`}>
+                            <Badge className={severityColors[incident.severity]}>
+                              {incident.severity}
                             </Badge>
-                          )}
-                        </div>
-                        
-                        <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                          {incident.title}
-                        </h3>
+                            <Badge className={statusColors[incident.status]}>
+                              {incident.status.replace('_', ' ')}
+                            </Badge>
+                            {incident.rcaReport && (
+                              <Badge className="bg-blue-100 text-blue-800">
+                                RCA Complete
+                              </Badge>
+                            )}
+                          </div>
                         
-                        <p className="text-gray-600 mb-3 line-clamp-2">
-                          {incident.description}
-                        </p>
-
-                        {/* Images Display */}
-                        {incident.imageUrls && incident.imageUrls.length > 0 && (() => {
-                          const validImageUrls = filterValidImageUrls(incident.imageUrls);
-                          return validImageUrls.length > 0 && (
+                          <h3 className={`font-semibold text-gray-900 ${isCompact ? 'mb-1' : 'text-lg mb-2'}`}>
+                            {incident.title}
+                          </h3>
+
+                          {!isCompact && (
+                            <p className="text-gray-600 mb-3 line-clamp-2">
+                              {incident.description}
+                            </p>
+                          )}
+
+                          {/* Images Display */}
+                          {!isCompact && incident.imageUrls.length > 0 && (
                             <div className="mb-3">
                               <div className="flex items-center mb-2">
                                 <Camera className="h-4 w-4 text-gray-600 mr-2" />
-                                <span className="text-sm font-medium text-gray-700">Incident Photos ({validImageUrls.length}):</span>
+                                <span className="text-sm font-medium text-gray-700">Incident Photos ({incident.imageUrls.length}):</span>
                               </div>
                               <div className="flex gap-3 overflow-x-auto pb-2">
-                                {validImageUrls.slice(0, 4).map((imageUrl, index) => (
+                                {incident.imageUrls.slice(0, 4).map((imageUrl, index) => (
                                   <div key={index} className="flex-shrink-0">
                                     <AuthenticatedImage
                                       src={imageUrl}
@@ -443,177 +601,192 @@ const ManagerDashboard: React.FC = () => {
                                     />
                                   </div>
                                 ))}
-                                {validImageUrls.length > 4 && (
+                                {incident.imageUrls.length > 4 && (
                                   <div className="w-24 h-24 bg-gray-100 rounded-lg border-2 border-gray-200 flex items-center justify-center text-sm text-gray-600 font-medium">
-                                    +{validImageUrls.length - 4} more
+                                    +{incident.imageUrls.length - 4} more
                                   </div>
                                 )}
                               </div>
                             </div>
-                          );
-                        })()}
-
-                        {/* RCA Information */}
-                        {incident.rcaReport && (
-                          <div className="mb-3 p-4 bg-blue-50 rounded-lg border border-blue-200">
-                            <div className="flex items-center mb-3">
-                              <BarChart3 className="h-5 w-5 text-blue-600 mr-2" />
-                              <span className="text-sm font-semibold text-blue-800">Root Cause Analysis Complete</span>
-                              <Badge className="ml-2 bg-green-100 text-green-800 text-xs">
-                                Completed by {incident.rcaReport.manager?.name || 'Manager'}
-                              </Badge>
-                            </div>
-                            <div className="space-y-3 text-sm">
-                              {incident.rcaReport.fiveWhys && (
-                                <div>
-                                  <span className="font-semibold text-gray-800">Five Whys Analysis:</span>
-                                  <div className="mt-1 p-2 bg-white rounded border">
-                                    <pre className="text-gray-700 whitespace-pre-wrap text-xs leading-relaxed">
-                                      {incident.rcaReport.fiveWhys}
-                                    </pre>
+                          )}
+
+                          {/* RCA Information */}
+                          {!isCompact && incident.rcaReport && (
+                            <div className="mb-3 p-4 bg-blue-50 rounded-lg border border-blue-200">
+                              <div className="flex items-center mb-3">
+                                <BarChart3 className="h-5 w-5 text-blue-600 mr-2" />
+                                <span className="text-sm font-semibold text-blue-800">Root Cause Analysis Complete</span>
+                                <Badge className="ml-2 bg-green-100 text-green-800 text-xs">
+                                  Completed by {incident.rcaReport.manager?.name || 'Manager'}
+                                </Badge>
+                              </div>
+                              <div className="space-y-3 text-sm">
+                                {incident.rcaReport.fiveWhys && (
+                                  <div>
+                                    <span className="font-semibold text-gray-800">Five Whys Analysis:</span>
+                                    <div className="mt-1 p-2 bg-white rounded border">
+                                      <pre className="text-gray-700 whitespace-pre-wrap text-xs leading-relaxed">
+                                        {incident.rcaReport.fiveWhys}
+                                      </pre>
+                                    </div>
                                   </div>
-                                </div>
-                              )}
-                              {incident.rcaReport.correctiveAction && (
-                                <div>
-                                  <span className="font-semibold text-gray-800">Corrective Action:</span>
-                                  <p className="text-gray-700 mt-1 p-2 bg-white rounded border">
-                                    {incident.rcaReport.correctiveAction}
-                                  </p>
-                                </div>
-                              )}
-                              {incident.rcaReport.preventiveAction && (
-                                <div>
-                                  <span className="font-semibold text-gray-800">Preventive Action:</span>
-                                  <p className="text-gray-700 mt-1 p-2 bg-white rounded border">
-                                    {incident.rcaReport.preventiveAction}
-                                  </p>
-                                </div>
-                              )}
-                              {incident.rcaReport.createdAt && (
-                                <div className="text-xs text-gray-500 mt-2 pt-2 border-t border-blue-200">
-                                  RCA completed on {new Date(incident.rcaReport.createdAt).toLocaleString()}
-                                </div>
-                              )}
-                            </div>
-                          </div>
-                        )}
-
-                        {/* RCA AI Suggestions */}
-                        {incident.rcaAiSuggestions && !incident.rcaReport && (
-                          <div className="mb-3 p-4 bg-yellow-50 rounded-lg border border-yellow-200">
-                            <div className="flex items-center mb-3">
-                              <span className="text-sm font-semibold text-yellow-800">🤖 AI RCA Suggestions Ready</span>
-                              <Badge className="ml-2 bg-yellow-100 text-yellow-800 text-xs">
-                                {incident.rcaAiSuggestions.status || 'Generated'}
-                              </Badge>
+                                )}
+                                {incident.rcaReport.correctiveAction && (
+                                  <div>
+                                    <span className="font-semibold text-gray-800">Corrective Action:</span>
+                                    <p className="text-gray-700 mt-1 p-2 bg-white rounded border">
+                                      {incident.rcaReport.correctiveAction}
+                                    </p>
+                                  </div>
+                                )}
+                                {incident.rcaReport.preventiveAction && (
+                                  <div>
+                                    <span className="font-semibold text-gray-800">Preventive Action:</span>
+                                    <p className="text-gray-700 mt-1 p-2 bg-white rounded border">
+                                      {incident.rcaReport.preventiveAction}
+                                    </p>
+                                  </div>
+                                )}
+                                {incident.rcaReport.createdAt && (
+                                  <div className="text-xs text-gray-500 mt-2 pt-2 border-t border-blue-200">
+                                    RCA completed on {new Date(incident.rcaReport.createdAt).toLocaleString()}
+                                  </div>
+                                )}
+                              </div>
                             </div>
-                            <div className="space-y-3 text-sm">
-                              {incident.rcaAiSuggestions.suggestedFiveWhys && (
-                                <div>
-                                  <span className="font-semibold text-gray-800">AI Five Whys Suggestion:</span>
-                                  <div className="mt-1 p-2 bg-white rounded border">
-                                    <pre className="text-gray-700 whitespace-pre-wrap text-xs leading-relaxed line-clamp-4">
-                                      {incident.rcaAiSuggestions.suggestedFiveWhys}
-                                    </pre>
+                          )}
+
+                          {/* RCA AI Suggestions */}
+                          {!isCompact && incident.rcaAiSuggestions && !incident.rcaReport && (
+                            <div className="mb-3 p-4 bg-yellow-50 rounded-lg border border-yellow-200">
+                              <div className="flex items-center mb-3">
+                                <span className="text-sm font-semibold text-yellow-800">🤖 AI RCA Suggestions Ready</span>
+                                <Badge className="ml-2 bg-yellow-100 text-yellow-800 text-xs">
+                                  {incident.rcaAiSuggestions.status || 'Generated'}
+                                </Badge>
+                              </div>
+                              <div className="space-y-3 text-sm">
+                                {incident.rcaAiSuggestions.suggestedFiveWhys && (
+                                  <div>
+                                    <span className="font-semibold text-gray-800">AI Five Whys Suggestion:</span>
+                                    <div className="mt-1 p-2 bg-white rounded border">
+                                      <pre className="text-gray-700 whitespace-pre-wrap text-xs leading-relaxed line-clamp-4">
+                                        {incident.rcaAiSuggestions.suggestedFiveWhys}
+                                      </pre>
+                                    </div>
                                   </div>
+                                )}
+                                {incident.rcaAiSuggestions.suggestedCorrectiveAction && (
+                                  <div>
+                                    <span className="font-semibold text-gray-800">AI Corrective Action:</span>
+                                    <p className="text-gray-700 mt-1 p-2 bg-white rounded border line-clamp-3">
+                                      {incident.rcaAiSuggestions.suggestedCorrectiveAction}
+                                    </p>
+                                  </div>
+                                )}
+                                {incident.rcaAiSuggestions.suggestedPreventiveAction && (
+                                  <div>
+                                    <span className="font-semibold text-gray-800">AI Preventive Action:</span>
+                                    <p className="text-gray-700 mt-1 p-2 bg-white rounded border line-clamp-3">
+                                      {incident.rcaAiSuggestions.suggestedPreventiveAction}
+                                    </p>
+                                  </div>
+                                )}
+                                <div className="text-xs text-yellow-700 mt-3 pt-2 border-t border-yellow-200">
+                                  Click "Review" to approve or modify these AI suggestions
                                 </div>
-                              )}
-                              {incident.rcaAiSuggestions.suggestedCorrectiveAction && (
-                                <div>
-                                  <span className="font-semibold text-gray-800">AI Corrective Action:</span>
-                                  <p className="text-gray-700 mt-1 p-2 bg-white rounded border line-clamp-3">
-                                    {incident.rcaAiSuggestions.suggestedCorrectiveAction}
-                                  </p>
-                                </div>
-                              )}
-                              {incident.rcaAiSuggestions.suggestedPreventiveAction && (
-                                <div>
-                                  <span className="font-semibold text-gray-800">AI Preventive Action:</span>
-                                  <p className="text-gray-700 mt-1 p-2 bg-white rounded border line-clamp-3">
-                                    {incident.rcaAiSuggestions.suggestedPreventiveAction}
-                                  </p>
-                                </div>
-                              )}
-                              <div className="text-xs text-yellow-700 mt-3 pt-2 border-t border-yellow-200">
-                                Click "Review" to approve or modify these AI suggestions
                               </div>
                             </div>
-                          </div>
-                        )}
+                          )}
                         
-                        <div className="flex items-center text-sm text-gray-500 space-x-4">
-                          <div className="flex items-center">
-                            <User className="h-4 w-4 mr-1" />
-                            {incident.reportedBy}
-                          </div>
-                          <div className="flex items-center">
-                            <Clock className="h-4 w-4 mr-1" />
-                            {new Date(incident.reportedAt).toLocaleDateString()}
-                          </div>
-                          {incident.locationDescription && (
+                          <div className="flex items-center text-sm text-gray-500 space-x-4">
                             <div className="flex items-center">
-                              <span>📍 {incident.locationDescription}</span>
+                              <User className="h-4 w-4 mr-1" />
+                              {incident.reportedBy}
                             </div>
-                          )}
-                          {incident.assignedTo && (
                             <div className="flex items-center">
-                              <span>� Assigned to: {incident.assignedTo}</span>
+                              <Clock className="h-4 w-4 mr-1" />
+                              {new Date(incident.reportedAt).toLocaleDateString()}
                             </div>
-                          )}
+                            {incident.locationDescription && (
+                              <div className="flex items-center">
+                                <span>📍 {incident.locationDescription}</span>
+                              </div>
+                            )}
+                            <Can
+                              permission="incident.assign"
+                              fallback={incident.assignedTo && (
+                                <div className="flex items-center">
+                                  <span>👤 Assigned to: {incident.assignedTo}</span>
+                                </div>
+                              )}
+                            >
+                              <AssigneePicker incident={incident} className="w-60" />
+                            </Can>
+                          </div>
                         </div>
-                      </div>
                       
-                      <div className="flex flex-col gap-2 ml-4">
-                        <Link to={`/manager/incidents/${incident.id}`}>
-                          <Button variant="outline" size="sm">
-                            Review
-                          </Button>
-                        </Link>
-                        {!incident.rcaReport && !incident.rcaAiSuggestions && (
-                          <Button 
-                            variant="outline" 
-                            size="sm" 
-                            className="text-blue-600 border-blue-200"
-                            onClick={() => handleGenerateRca(incident.id)}
-                            disabled={generateRcaMutation.isPending}
-                          >
-                            {generateRcaMutation.isPending ? 'Generating...' : 'Generate RCA'}
-                          </Button>
-                        )}
+                        <div className={`flex gap-2 ml-4 ${isCompact ? 'items-center' : 'flex-col'}`}>
+                          <Link to={`/manager/incidents/${incident.id}`}>
+                            <Button variant="outline" size="sm">
+                              Review
+                            </Button>
+                          </Link>
+                          {!incident.rcaReport && !incident.rcaAiSuggestions && (
+                            <Can permission="rca.generate">
+                              <Button 
+                                variant="outline" 
+                                size="sm" 
+                                className="text-blue-600 border-blue-200"
+                                onClick={() => handleGenerateRca(incident.id)}
+                                disabled={generateRcaMutation.isPending}
+                              >
+                                {generateRcaMutation.isPending ? 'Generating...' : 'Generate RCA'}
+                              </Button>
+                            </Can>
+                          )}
+                          <Can permission="incident.delete">
+                            <DeleteIncidentDialog incident={incident}>
+                              <Button variant="outline" size="sm" className="text-red-600 border-red-200">
+                                <Trash2 className="h-4 w-4 mr-1" />
+                                Delete
+                              </Button>
+                            </DeleteIncidentDialog>
+                          </Can>
+                        </div>
                       </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-
-              {/* Pagination */}
-              {incidents && incidents.totalPages > 1 && (
-                <div className="flex justify-center items-center space-x-2 mt-6">
-                  <Button
-                    variant="outline"
-                    onClick={() => handlePageChange(queryParams.page! - 1)}
-                    disabled={incidents.first}
-                  >
-                    Previous
-                  </Button>
+                    </CardContent>
+                  </Card>
+                ))}
+
+                {/* Pagination */}
+                {incidents && incidents.totalPages > 1 && (
+                  <div className="flex justify-center items-center space-x-2 mt-6">
+                    <Button
+                      variant="outline"
+                      onClick={() => handlePageChange(queryParams.page! - 1)}
+                      disabled={incidents.first}
+                    >
+                      Previous
+                    </Button>
                   
-                  <span className="text-sm text-gray-600">
-                    Page {(queryParams.page || 0) + 1} of {incidents.totalPages}
-                  </span>
+                    <span className="text-sm text-gray-600">
+                      Page {(queryParams.page || 0) + 1} of {incidents.totalPages}
+                    </span>
                   
-                  <Button
-                    variant="outline"
-                    onClick={() => handlePageChange(queryParams.page! + 1)}
-                    disabled={incidents.last}
-                  >
-                    Next
-                  </Button>
-                </div>
-              )}
-            </>
-          )}
-        </div>
+                    <Button
+                      variant="outline"
+                      onClick={() => handlePageChange(queryParams.page! + 1)}
+                      disabled={incidents.last}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
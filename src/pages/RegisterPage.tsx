@@ -0,0 +1,224 @@
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { authApi } from '@/api/auth';
+import { useAuth } from '@/contexts/AuthContext';
+import { getHomePath, ROLE_LABELS } from '@/lib/permissions';
+import { isSelfSignupEnabled } from '@/lib/config';
+import { passwordSchema } from '@/lib/validation';
+import { applyApiErrors } from '@/lib/form-errors';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, Building2, Clock, Loader2, Shield } from 'lucide-react';
+
+const registerSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  email: z.string().email('Please enter a valid email address'),
+  password: passwordSchema,
+});
+
+type RegisterFormData = z.infer<typeof registerSchema>;
+
+const RegisterPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
+  const { login } = useAuth();
+  const navigate = useNavigate();
+
+  const { data: invite, isLoading: inviteLoading, error: inviteError } = useQuery({
+    queryKey: ['invite', inviteToken],
+    queryFn: () => authApi.validateInvite(inviteToken!),
+    enabled: !!inviteToken,
+    retry: false,
+  });
+
+  const registerForm = useForm<RegisterFormData>({
+    resolver: zodResolver(registerSchema),
+    defaultValues: {
+      name: '',
+      email: '',
+      password: '',
+    },
+  });
+
+  // The invite is tied to one email address
+  useEffect(() => {
+    if (invite?.status === 'VALID' && invite.email) {
+      registerForm.setValue('email', invite.email);
+    }
+  }, [invite, registerForm]);
+
+  const registerMutation = useMutation({
+    mutationFn: authApi.register,
+    onSuccess: (data) => {
+      login(data.token, data.user, data.refreshToken);
+
+      // Force navigation after registration
+      navigate(getHomePath(data.user), { replace: true });
+    },
+    onError: (error: Error) => {
+      applyApiErrors(registerForm, error);
+    },
+  });
+
+  const onRegisterSubmit = (data: RegisterFormData) => {
+    registerMutation.mutate({ ...data, inviteToken: inviteToken || undefined });
+  };
+
+  const hasValidInvite = !!inviteToken && invite?.status === 'VALID';
+
+  const renderContent = () => {
+    if (inviteToken && inviteLoading) {
+      return (
+        <div className="flex items-center justify-center py-6 text-gray-600">
+          <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+          Checking your invitation...
+        </div>
+      );
+    }
+
+    if (inviteToken && (inviteError || !invite || invite.status !== 'VALID')) {
+      const expired = invite?.status === 'EXPIRED';
+      return (
+        <div className={`flex items-start space-x-3 text-sm p-4 rounded-md ${expired ? 'bg-yellow-50 text-yellow-800' : 'bg-red-50 text-red-800'}`}>
+          {expired ? <Clock className="h-5 w-5 flex-shrink-0" /> : <AlertTriangle className="h-5 w-5 flex-shrink-0" />}
+          <p>
+            {inviteError
+              ? "We couldn't check your invitation right now. Please try again in a moment."
+              : expired
+                ? 'This invitation has expired. Ask your manager to send you a new one.'
+                : 'This invitation is not valid. It may have been used already or copied incompletely.'}
+          </p>
+        </div>
+      );
+    }
+
+    if (!inviteToken && !isSelfSignupEnabled) {
+      return (
+        <div className="flex items-start space-x-3 text-sm bg-blue-50 text-blue-800 p-4 rounded-md">
+          <Shield className="h-5 w-5 flex-shrink-0" />
+          <p>
+            SafeSnap accounts are created by invitation. Ask your manager to invite you, then open the link
+            from the invitation email.
+          </p>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)} className="space-y-4">
+        {registerForm.formState.errors.root && (
+          <div className="flex items-center space-x-2 text-red-600 text-sm">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{registerForm.formState.errors.root.message}</span>
+          </div>
+        )}
+
+        {hasValidInvite ? (
+          <div className="flex items-start space-x-3 text-sm bg-gray-50 border p-3 rounded-md">
+            <Building2 className="h-5 w-5 text-gray-500 flex-shrink-0" />
+            <p className="text-gray-700">
+              You've been invited to join{' '}
+              <strong>{invite?.organizationName || 'your organization'}</strong> as a{' '}
+              <strong>{invite?.role ? ROLE_LABELS[invite.role] : 'team member'}</strong>.
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600">
+            Accounts created here are worker accounts. Managers can change your role later.
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="name">Full Name</Label>
+          <Input
+            id="name"
+            type="text"
+            {...registerForm.register('name')}
+            className={registerForm.formState.errors.name ? 'border-red-500' : ''}
+          />
+          {registerForm.formState.errors.name && (
+            <p className="text-sm text-red-600">{registerForm.formState.errors.name.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="register-email">Email</Label>
+          <Input
+            id="register-email"
+            type="email"
+            readOnly={hasValidInvite && !!invite?.email}
+            {...registerForm.register('email')}
+            className={registerForm.formState.errors.email ? 'border-red-500' : ''}
+          />
+          {registerForm.formState.errors.email && (
+            <p className="text-sm text-red-600">{registerForm.formState.errors.email.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="register-password">Password</Label>
+          <Input
+            id="register-password"
+            type="password"
+            autoComplete="new-password"
+            {...registerForm.register('password')}
+            className={registerForm.formState.errors.password ? 'border-red-500' : ''}
+          />
+          {registerForm.formState.errors.password ? (
+            <p className="text-sm text-red-600">{registerForm.formState.errors.password.message}</p>
+          ) : (
+            <p className="text-xs text-gray-500">
+              At least 8 characters, with an uppercase letter, a lowercase letter and a number.
+            </p>
+          )}
+        </div>
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={registerMutation.isPending}
+        >
+          {registerMutation.isPending ? 'Creating account...' : 'Create Account'}
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="flex justify-center items-center mb-4">
+            <Shield className="h-12 w-12 text-primary mr-2" />
+            <h1 className="text-3xl font-bold text-gray-900">SafeSnap</h1>
+          </div>
+          <p className="text-gray-600">Incident reporting and management system</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Create Account</CardTitle>
+            <CardDescription>Fill in your details to create a new account</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {renderContent()}
+
+            <div className="text-center">
+              <Link to="/login" className="text-sm text-primary hover:underline">
+                Already have an account? Sign in
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default RegisterPage;
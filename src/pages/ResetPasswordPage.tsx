@@ -0,0 +1,213 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Link, useParams } from 'react-router-dom';
+import { authApi } from '@/api/auth';
+import { isSafeSnapApiError } from '@/api/errors';
+import { passwordSchema } from '@/lib/validation';
+import { applyApiErrors } from '@/lib/form-errors';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, CheckCircle, Clock, Loader2, Shield } from 'lucide-react';
+
+const resetPasswordSchema = z
+  .object({
+    password: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+const ResetPasswordPage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+
+  const { data: validation, isLoading, error } = useQuery({
+    queryKey: ['reset-token', token],
+    queryFn: () => authApi.validateResetToken(token!),
+    enabled: !!token,
+    retry: false,
+  });
+
+  // A malformed or unknown token is rejected with a 4xx; only network trouble and 5xx are worth retrying
+  const isRejectedToken =
+    isSafeSnapApiError(error) && error.status >= 400 && error.status < 500 && error.status !== 429;
+  const isInvalidLink = validation?.status === 'INVALID' || isRejectedToken;
+
+  const form = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      password: '',
+      confirmPassword: '',
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: authApi.resetPassword,
+    onError: (error: Error) => {
+      applyApiErrors(form, error, { newPassword: 'password' });
+    },
+  });
+
+  const onSubmit = (data: ResetPasswordFormData) => {
+    resetPasswordMutation.mutate({ token: token!, newPassword: data.password });
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center py-6 text-gray-600">
+          <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+          Checking your reset link...
+        </div>
+      );
+    }
+
+    if (isInvalidLink) {
+      return (
+        <div className="space-y-4">
+          <div className="flex items-start space-x-3 text-sm bg-red-50 text-red-800 p-4 rounded-md">
+            <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+            <p>This reset link is not valid. It may have been used already or copied incompletely.</p>
+          </div>
+          <Link to="/forgot-password">
+            <Button className="w-full">Request a New Link</Button>
+          </Link>
+        </div>
+      );
+    }
+
+    if (error || !validation) {
+      return (
+        <div className="flex items-start space-x-3 text-sm bg-red-50 text-red-800 p-4 rounded-md">
+          <AlertTriangle className="h-5 w-5 flex-shrink-0" />
+          <p>We couldn't check your reset link right now. Please try again in a moment.</p>
+        </div>
+      );
+    }
+
+    if (validation.status === 'EXPIRED') {
+      return (
+        <div className="space-y-4">
+          <div className="flex items-start space-x-3 text-sm bg-yellow-50 text-yellow-800 p-4 rounded-md">
+            <Clock className="h-5 w-5 flex-shrink-0" />
+            <p>This reset link has expired. Reset links can only be used for a limited time - request a new one below.</p>
+          </div>
+          <Link to="/forgot-password">
+            <Button className="w-full">Request a New Link</Button>
+          </Link>
+        </div>
+      );
+    }
+
+    if (resetPasswordMutation.isSuccess) {
+      return (
+        <div className="space-y-4">
+          <div className="flex items-start space-x-3 text-sm bg-green-50 text-green-800 p-4 rounded-md">
+            <CheckCircle className="h-5 w-5 flex-shrink-0" />
+            <p>Your password has been changed. You can now sign in with your new password.</p>
+          </div>
+          <Link to="/login">
+            <Button className="w-full">Sign In</Button>
+          </Link>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {form.formState.errors.root && (
+          <div className="flex items-center space-x-2 text-red-600 text-sm">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{form.formState.errors.root.message}</span>
+          </div>
+        )}
+
+        {validation.email && (
+          <p className="text-sm text-gray-600">
+            Choosing a new password for <strong>{validation.email}</strong>
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="password">New Password</Label>
+          <Input
+            id="password"
+            type="password"
+            autoComplete="new-password"
+            {...form.register('password')}
+            className={form.formState.errors.password ? 'border-red-500' : ''}
+          />
+          {form.formState.errors.password ? (
+            <p className="text-sm text-red-600">{form.formState.errors.password.message}</p>
+          ) : (
+            <p className="text-xs text-gray-500">
+              At least 8 characters, with an uppercase letter, a lowercase letter and a number.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="confirmPassword">Confirm New Password</Label>
+          <Input
+            id="confirmPassword"
+            type="password"
+            autoComplete="new-password"
+            {...form.register('confirmPassword')}
+            className={form.formState.errors.confirmPassword ? 'border-red-500' : ''}
+          />
+          {form.formState.errors.confirmPassword && (
+            <p className="text-sm text-red-600">{form.formState.errors.confirmPassword.message}</p>
+          )}
+        </div>
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={resetPasswordMutation.isPending}
+        >
+          {resetPasswordMutation.isPending ? 'Saving password...' : 'Set New Password'}
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="flex justify-center items-center mb-4">
+            <Shield className="h-12 w-12 text-primary mr-2" />
+            <h1 className="text-3xl font-bold text-gray-900">SafeSnap</h1>
+          </div>
+          <p className="text-gray-600">Incident reporting and management system</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Reset Password</CardTitle>
+            <CardDescription>Choose a new password for your SafeSnap account</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {renderContent()}
+
+            <div className="text-center">
+              <Link to="/login" className="text-sm text-primary hover:underline">
+                Back to sign in
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
@@ -1,16 +1,17 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 import { incidentsApi } from '@/api/incidents';
 import { useAuth } from '@/contexts/AuthContext';
-import { IncidentQueryParams } from '@/types';
+import { useIncidentQueryParams } from '@/hooks/useIncidentQueryParams';
+import { countActiveFilters } from '@/lib/incident-filters';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import IncidentFilters from '@/components/IncidentFilters';
+import IncidentSortControls from '@/components/IncidentSortControls';
 import { 
   Plus, 
-  Search, 
   AlertTriangle, 
   Clock,
   LogOut,
@@ -35,32 +36,15 @@ const severityColors = {
 
 const WorkerDashboard: React.FC = () => {
   const { user, logout } = useAuth();
-  const [queryParams, setQueryParams] = useState<IncidentQueryParams>({
-    page: 0,
-    size: 10,
-  });
-  const [searchTerm, setSearchTerm] = useState('');
+  const { params: queryParams, setFilters, setPage, clearFilters } = useIncidentQueryParams();
 
   const { data: incidents, isLoading, error } = useQuery({
     queryKey: ['incidents', 'my', queryParams],
     queryFn: () => incidentsApi.getMyIncidents(queryParams),
   });
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    setQueryParams(prev => ({ ...prev, search: searchTerm || undefined, page: 0 }));
-  };
-
-  const handleFilterChange = (key: keyof IncidentQueryParams, value: string | undefined) => {
-    setQueryParams(prev => ({ 
-      ...prev, 
-      [key]: value || undefined, 
-      page: 0 
-    }));
-  };
-
   const handlePageChange = (newPage: number) => {
-    setQueryParams(prev => ({ ...prev, page: newPage }));
+    setPage(newPage);
   };
 
   if (isLoading) {
@@ -126,56 +110,18 @@ const WorkerDashboard: React.FC = () => {
             <CardTitle>Search & Filter Incidents</CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="flex flex-col md:flex-row gap-4">
-              <form onSubmit={handleSearch} className="flex-1">
-                <div className="flex">
-                  <Input
-                    placeholder="Search incidents..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
-                    className="flex-1"
-                  />
-                  <Button type="submit" className="ml-2">
-                    <Search className="h-4 w-4" />
-                  </Button>
-                </div>
-              </form>
-              
-              <div className="flex gap-2">
-                <select
-                  value={queryParams.status || ''}
-                  onChange={(e) => handleFilterChange('status', e.target.value)}
-                  className="px-3 py-2 border rounded-md"
-                >
-                  <option value="">All Status</option>
-                  <option value="OPEN">Open</option>
-                  <option value="IN_PROGRESS">In Progress</option>
-                  <option value="UNDER_REVIEW">Under Review</option>
-                  <option value="RESOLVED">Resolved</option>
-                  <option value="CLOSED">Closed</option>
-                </select>
-
-                <select
-                  value={queryParams.severity || ''}
-                  onChange={(e) => handleFilterChange('severity', e.target.value)}
-                  className="px-3 py-2 border rounded-md"
-                >
-                  <option value="">All Severity</option>
-                  <option value="LOW">Low</option>
-                  <option value="MEDIUM">Medium</option>
-                  <option value="HIGH">High</option>
-                  <option value="CRITICAL">Critical</option>
-                </select>
-              </div>
-            </div>
+            <IncidentFilters params={queryParams} onChange={setFilters} onClear={clearFilters} />
           </CardContent>
         </Card>
 
         {/* Incidents List */}
         <div className="space-y-4">
-          <h2 className="text-xl font-semibold text-gray-900">
-            My Incidents ({incidents?.totalElements || 0})
-          </h2>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+            <h2 className="text-xl font-semibold text-gray-900">
+              My Incidents ({incidents?.totalElements || 0})
+            </h2>
+            <IncidentSortControls sort={queryParams.sort} onChange={(sort) => setFilters({ sort })} />
+          </div>
 
           {incidents?.content.length === 0 ? (
             <Card>
@@ -183,7 +129,7 @@ const WorkerDashboard: React.FC = () => {
                 <AlertTriangle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                 <h3 className="text-lg font-medium text-gray-900 mb-2">No incidents found</h3>
                 <p className="text-gray-600 mb-4">
-                  {queryParams.search || queryParams.status || queryParams.severity 
+                  {countActiveFilters(queryParams) > 0
                     ? "No incidents match your current filters."
                     : "You haven't reported any incidents yet."
                   }
@@ -1,21 +1,26 @@
 // Authentication Types
+export type UserRole = "WORKER" | "SUPERVISOR" | "SAFETY_OFFICER" | "MANAGER" | "ADMIN";
+
 export interface User {
-  id: number;
+  // Not in the session token the backend issues, so the signed-in user may not have one
+  id?: number;
   name: string;
   email: string;
-  role: "WORKER" | "MANAGER";
+  role: UserRole;
 }
 
 // Backend response format (what we actually receive)
 export interface BackendAuthResponse {
   token: string;
-  role: "WORKER" | "MANAGER";
+  refreshToken?: string;
+  role: UserRole;
   // The backend seems to include user info directly, not nested
 }
 
 // Frontend expected format
 export interface AuthResponse {
   token: string;
+  refreshToken?: string;
   user: User;
 }
 
@@ -24,11 +29,70 @@ export interface LoginRequest {
   password: string;
 }
 
+// Role and organization come from the invite; without one the backend creates a WORKER (self-signup mode)
 export interface RegisterRequest {
   name: string;
   email: string;
   password: string;
-  role: "WORKER" | "MANAGER";
+  inviteToken?: string;
+}
+
+export interface InviteValidation {
+  status: "VALID" | "EXPIRED" | "INVALID";
+  email?: string;
+  role?: UserRole;
+  organizationName?: string;
+  expiresAt?: string;
+}
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  newPassword: string;
+}
+
+export interface ResetTokenValidation {
+  status: "VALID" | "EXPIRED" | "INVALID";
+  email?: string;
+  expiresAt?: string;
+}
+
+// User Management Types (admins only)
+export type UserAccountStatus = "ACTIVE" | "INVITED" | "DEACTIVATED";
+
+export interface UserAccount {
+  id: number;
+  name: string;
+  email: string;
+  role: UserRole;
+  status: UserAccountStatus;
+  createdAt: string;
+  lastLoginAt?: string;
+}
+
+export interface InviteUserRequest {
+  email: string;
+  role: UserRole;
+}
+
+// Someone an incident can be assigned to, with their current workload
+export interface Assignee {
+  id: number;
+  name: string;
+  email: string;
+  role: UserRole;
+  openIncidentCount: number;
+}
+
+export interface UserInvite {
+  id: string;
+  email: string;
+  role: UserRole;
+  expiresAt: string;
+  invitedByName?: string;
 }
 
 // Incident Types
@@ -69,6 +133,50 @@ export interface IncidentListItem {
 
 export interface IncidentDetail extends IncidentListItem {}
 
+// Soft-deleted incidents stay in the trash, restorable, until purgeAt
+export interface TrashedIncident extends IncidentListItem {
+  deletedAt: string;
+  deletedBy: string;
+  deletionReason: string;
+  purgeAt: string;
+}
+
+export interface DeleteIncidentRequest {
+  reason: string;
+}
+
+export type IncidentHistoryAction =
+  | "CREATED"
+  | "UPDATED"
+  | "STATUS_CHANGED"
+  | "ASSIGNED"
+  | "UNASSIGNED"
+  | "MEDIA_UPDATED"
+  | "RCA_GENERATED"
+  | "RCA_REVIEWED"
+  | "RCA_APPROVED"
+  | "RCA_REPORT_CREATED"
+  | "DELETED"
+  | "RESTORED";
+
+// One changed field; media changes carry the number of files before and after
+export interface IncidentFieldChange {
+  field: string;
+  oldValue?: string;
+  newValue?: string;
+}
+
+export interface IncidentHistoryEntry {
+  id: string;
+  incidentId: string;
+  action: IncidentHistoryAction;
+  actorName: string;
+  actorEmail: string;
+  occurredAt: string;
+  changes: IncidentFieldChange[];
+  reason?: string;
+}
+
 export interface CreateIncidentRequest {
   title: string;
   description: string;
@@ -82,6 +190,34 @@ export interface CreateIncidentRequest {
 
 export interface UpdateIncidentRequest extends CreateIncidentRequest {}
 
+// Comment Types
+export interface CommentMention {
+  name: string;
+  email: string;
+}
+
+// Internal comments are only visible to roles with comment.internal, never to the reporting worker
+export interface IncidentComment {
+  id: string;
+  incidentId: string;
+  body: string;
+  author: User;
+  internal: boolean;
+  mentions: CommentMention[];
+  attachmentUrls: string[];
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface CreateCommentRequest {
+  body: string;
+  internal: boolean;
+  mentionedEmails: string[];
+  attachmentUrls: string[];
+}
+
+export type UpdateCommentRequest = Omit<CreateCommentRequest, "internal">;
+
 // Pagination Types
 export interface Pageable {
   pageNumber: number;
@@ -104,6 +240,10 @@ export interface PaginatedResponse<T> {
 
 export type IncidentListResponse = PaginatedResponse<IncidentListItem>;
 
+export type TrashedIncidentListResponse = PaginatedResponse<TrashedIncident>;
+
+export type UserListResponse = PaginatedResponse<UserAccount>;
+
 // File Upload Types
 export interface PresignedUploadResponse {
   uploadUrl: string;
@@ -147,6 +287,8 @@ export interface RcaReport {
   manager: User;
 }
 
+export type RcaSuggestionStatus = "GENERATED" | "REVIEWED" | "APPROVED";
+
 export interface RcaAiSuggestions {
   id?: string;
   incidentId: string;
@@ -155,7 +297,7 @@ export interface RcaAiSuggestions {
   suggestedCorrectiveAction: string;
   suggestedPreventiveAction: string;
   incidentCategory: string;
-  status: "GENERATED" | "REVIEWED" | "APPROVED";
+  status: RcaSuggestionStatus;
   generatedAt: string;
   reviewedAt?: string;
   reviewedByName?: string;
@@ -221,4 +363,77 @@ export interface IncidentQueryParams {
   status?: IncidentStatus;
   severity?: IncidentSeverity;
   search?: string;
+  // Reported between these dates (inclusive), as YYYY-MM-DD
+  reportedFrom?: string;
+  reportedTo?: string;
+  // Name or email; an assignee of "none" matches unassigned incidents
+  reporter?: string;
+  assignee?: string;
+  // Whether a completed RCA report exists
+  hasRca?: boolean;
+  rcaStatus?: RcaSuggestionStatus;
+  imageTag?: string;
+  location?: string;
+  // Only incidents within radiusKm of this point
+  nearLatitude?: number;
+  nearLongitude?: number;
+  radiusKm?: number;
+  // Sort keys in priority order, Spring style ("severity,desc")
+  sort?: IncidentSort[];
+}
+
+export type IncidentSortField = "reportedAt" | "updatedAt" | "severity" | "status";
+
+export type SortDirection = "asc" | "desc";
+
+export type IncidentSort = `${IncidentSortField},${SortDirection}`;
+
+export type IncidentListLayout = "list" | "compact" | "board";
+
+// A named incident list filter. Pinning and the default view are per user, so pinning a view
+// someone else shared doesn't pin it for them.
+export interface SavedView {
+  id: string;
+  name: string;
+  // Filters, sort and page size as the list's query string, e.g. "severity=CRITICAL&status=OPEN"
+  query: string;
+  layout: IncidentListLayout;
+  // Visible to everyone who can see all incidents
+  shared: boolean;
+  owner: User;
+  pinned: boolean;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface CreateSavedViewRequest {
+  name: string;
+  query: string;
+  layout: IncidentListLayout;
+  shared: boolean;
+  pinned: boolean;
+  isDefault: boolean;
+}
+
+// Owner only
+export interface UpdateSavedViewRequest {
+  name?: string;
+  query?: string;
+  layout?: IncidentListLayout;
+  shared?: boolean;
+}
+
+// Any view the user can see
+export interface SavedViewPreferencesRequest {
+  pinned?: boolean;
+  isDefault?: boolean;
+}
+
+export interface UserQueryParams {
+  page?: number;
+  size?: number;
+  search?: string;
+  role?: UserRole;
+  status?: UserAccountStatus;
 }
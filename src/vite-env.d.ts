@@ -2,6 +2,10 @@
 
 interface ImportMetaEnv {
   readonly VITE_API_BASE: string
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string
+  readonly VITE_IDLE_WARNING_SECONDS?: string
+  readonly VITE_ALLOW_SELF_SIGNUP?: string
+  readonly VITE_USE_MOCK_API?: string
 }
 
 interface ImportMeta {